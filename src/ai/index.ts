@@ -1,15 +1,27 @@
 import { GeminiProvider } from "./providers/gemini-provider.js";
 import { OpenAiProvider } from "./providers/openai-provider.js";
-import type { AiProvider, AiReviewInput, AiReviewResult } from "./types.js";
+import type {
+  AiAnswerRepairInput,
+  AiHintResult,
+  AiProvider,
+  AiReplyInput,
+  AiReviewInput,
+  AiReviewResult
+} from "./types.js";
 
-function buildProvider(): AiProvider | null {
-  const providerName = (process.env.AI_PROVIDER || "gemini").toLowerCase();
+export interface AiProviderOptions {
+  provider?: string;
+  model?: string;
+}
+
+function buildProvider(options: AiProviderOptions = {}): AiProvider | null {
+  const providerName = (options.provider || process.env.AI_PROVIDER || "gemini").toLowerCase();
 
   if (providerName === "openai") {
     const apiKey = process.env.OPENAI_API_KEY;
     if (!apiKey) return null;
 
-    const model = process.env.OPENAI_MODEL || "gpt-4.1-mini";
+    const model = options.model || process.env.OPENAI_MODEL || "gpt-4.1-mini";
     return new OpenAiProvider(apiKey, model);
   }
 
@@ -17,15 +29,42 @@ function buildProvider(): AiProvider | null {
     const apiKey = process.env.GEMINI_API_KEY;
     if (!apiKey) return null;
 
-    const model = process.env.GEMINI_MODEL || "gemini-2.0-flash";
+    const model = options.model || process.env.GEMINI_MODEL || "gemini-2.0-flash";
     return new GeminiProvider(apiKey, model);
   }
 
   return null;
 }
 
-export async function generateAiReview(input: AiReviewInput): Promise<AiReviewResult | null> {
-  const provider = buildProvider();
+export async function generateAiReview(
+  input: AiReviewInput,
+  options: AiProviderOptions = {}
+): Promise<AiReviewResult | null> {
+  const provider = buildProvider(options);
   if (!provider) return null;
   return provider.generateReview(input);
 }
+
+export async function generateAiHints(
+  input: AiReviewInput,
+  options: AiProviderOptions = {}
+): Promise<AiHintResult | null> {
+  const provider = buildProvider(options);
+  if (!provider) return null;
+  return provider.generateHints(input);
+}
+
+export async function generateAiReply(input: AiReplyInput, options: AiProviderOptions = {}): Promise<string | null> {
+  const provider = buildProvider(options);
+  if (!provider) return null;
+  return provider.generateReply(input);
+}
+
+export async function generateAiAnswerRepair(
+  input: AiAnswerRepairInput,
+  options: AiProviderOptions = {}
+): Promise<string | null> {
+  const provider = buildProvider(options);
+  if (!provider) return null;
+  return provider.repairAnswerCode(input);
+}
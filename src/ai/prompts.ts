@@ -0,0 +1,366 @@
+import type {
+  AiAnswerRepairInput,
+  AiHintResult,
+  AiReplyInput,
+  AiReviewInput,
+  InlineSuggestion,
+  ReviewStyle,
+  ReviewTarget
+} from "./types.js";
+import type { ProblemSample } from "../types.js";
+
+// Prompt builders and response parsers shared by every provider; providers only differ in how they call the model.
+
+export interface ReviewResponseShape {
+  summary_markdown: string;
+  time_complexity: string;
+  space_complexity: string;
+  answer_code: string;
+  inline_suggestions: Array<{
+    path: string;
+    line: number;
+    body: string;
+    start_line?: number;
+    suggestion?: string;
+  }>;
+}
+
+// GitHub suggestions on long ranges are hard to review; larger replacements belong in answer_code.
+const MAX_SUGGESTION_LINES = 30;
+
+export function buildTargetGuide(targets: ReviewTarget[]): string {
+  if (targets.length === 0) return "라인 코멘트 대상 파일이 없습니다.";
+  return targets
+    .map((target) => `${target.path} -> [${target.addedLines.join(",") || "none"}]`)
+    .join("\n");
+}
+
+export function buildSampleGuide(samples: ProblemSample[]): string {
+  if (samples.length === 0) return "예제 입출력이 없습니다.";
+  return samples
+    .map((sample, index) => {
+      const explanation = sample.explanation ? `\n설명:\n${sample.explanation}` : "";
+      return `[예제 ${index + 1}]\n입력:\n${sample.input}\n출력:\n${sample.output}${explanation}`;
+    })
+    .join("\n\n");
+}
+
+export function buildJudgeGuide(judgeSummary?: string): string {
+  return judgeSummary?.trim() || "실행하지 않음";
+}
+
+export function buildStyleGuide(style?: ReviewStyle, target = "summary_markdown과 inline_suggestions.body는"): string {
+  const tone =
+    style?.tone === "strict"
+      ? "엄격한 시니어 리뷰어처럼 간결하고 직설적으로 지적한다."
+      : style?.tone === "neutral"
+        ? "감정 표현 없이 사실 위주로 담담하게 작성한다."
+        : "친절하고 격려하는 말투로 작성한다.";
+  const language =
+    style?.language === "en"
+      ? `${target} 영어로 작성한다.`
+      : `${target} 한국어로 작성한다.`;
+  return `- ${tone}\n- ${language}`;
+}
+
+export function stripCodeFence(text: string): string {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith("```")) return trimmed;
+  return trimmed.replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "").trim();
+}
+
+// Models sometimes wrap the JSON object in prose, so fall back to the outermost braces.
+function parseJsonObject<T>(text: string): T | null {
+  const stripped = stripCodeFence(text);
+  try {
+    return JSON.parse(stripped) as T;
+  } catch {
+    // fall through to the brace slice
+  }
+
+  const firstBrace = stripped.indexOf("{");
+  const lastBrace = stripped.lastIndexOf("}");
+  if (firstBrace < 0 || lastBrace <= firstBrace) return null;
+  try {
+    return JSON.parse(stripped.slice(firstBrace, lastBrace + 1)) as T;
+  } catch {
+    return null;
+  }
+}
+
+export function parseReviewResponse(text: string): ReviewResponseShape | null {
+  const parsed = parseJsonObject<ReviewResponseShape>(text);
+  if (!parsed?.summary_markdown || !parsed.answer_code || !Array.isArray(parsed.inline_suggestions)) {
+    return null;
+  }
+  return {
+    ...parsed,
+    time_complexity: parsed.time_complexity?.trim() || "O(unknown)",
+    space_complexity: parsed.space_complexity?.trim() || "O(unknown)"
+  };
+}
+
+export function parseAnswerCodeResponse(text: string): string | null {
+  const parsed = parseJsonObject<{ answer_code?: unknown }>(text);
+  if (typeof parsed?.answer_code !== "string") return null;
+  const normalized = parsed.answer_code.trim();
+  return normalized.length > 0 ? normalized : null;
+}
+
+// Indentation is part of the replacement, so only blank lines and code fences around the snippet are removed.
+function normalizeSuggestion(
+  rawSuggestion: string | undefined,
+  rawStartLine: number | undefined,
+  line: number
+): Pick<InlineSuggestion, "startLine" | "suggestion"> {
+  if (typeof rawSuggestion !== "string") return {};
+  const suggestion = rawSuggestion
+    .replace(/^\s*```[\w+-]*[ \t]*\n/, "")
+    .replace(/\n?```\s*$/, "")
+    .replace(/^(?:[ \t]*\n)+/, "")
+    .replace(/\s+$/, "");
+  if (!suggestion.trim()) return {};
+
+  if (rawStartLine === undefined || rawStartLine === null) return { suggestion };
+  // A replacement written for a range must never be applied to a different one.
+  const startLine = Number(rawStartLine);
+  if (!Number.isInteger(startLine) || startLine <= 0 || startLine > line || line - startLine >= MAX_SUGGESTION_LINES) {
+    return {};
+  }
+  return startLine < line ? { startLine, suggestion } : { suggestion };
+}
+
+export function normalizeInline(items: ReviewResponseShape["inline_suggestions"]): InlineSuggestion[] {
+  const results: InlineSuggestion[] = [];
+  for (const item of items) {
+    const path = item.path?.trim();
+    const line = Number(item.line);
+    const body = item.body?.trim();
+    if (!path || !body || !Number.isInteger(line) || line <= 0) continue;
+    results.push({ path, line, body, ...normalizeSuggestion(item.suggestion, item.start_line, line) });
+  }
+  return results;
+}
+
+export function buildReviewPrompt(input: AiReviewInput): string {
+  return `
+당신은 코딩 테스트 리뷰 어시스턴트다.
+반드시 JSON 객체 하나만 출력한다. Markdown/설명문/코드펜스 금지.
+
+필수 작업:
+1) 제출 코드는 "정답(AC)"이라고 가정하고, 왜 정답인지 핵심 근거를 설명한다. 단, "예제 실행 결과"에 FAIL/TLE/RE/컴파일 에러가 있으면 정답으로 가정하지 말고 실패 원인부터 분석한다.
+2) 시간/공간 복잡도를 평가하고, 병목 가능성을 짚는다.
+3) 더 나은 접근(복잡도 개선 또는 구현 단순화)이 가능한지 검토한다.
+4) 코드 품질(변수명, 변수 선언 위치/스코프, 중복 로직, 매직넘버)을 리뷰한다.
+5) 모범 답안 코드를 ${input.language} 기준으로 작성한다.
+6) 인라인 코멘트는 아래 "허용 라인"에 있는 라인 번호만 사용한다.
+7) 사용자가 ASK 필드에 남긴 요청이 있으면 해당 요청을 우선 반영한다.
+8) 예제 입출력으로 제출 코드를 직접 따라가 보고, 놓치기 쉬운 엣지 케이스를 구체적인 입력으로 제시한다.
+
+응답 JSON 스키마:
+{
+  "summary_markdown": "## 총평\\n...\\n## 더 좋은 접근 제안\\n...\\n## 코드 레벨 개선 포인트\\n...\\n## 놓치기 쉬운 테스트 케이스\\n...",
+  "time_complexity": "O(...)",
+  "space_complexity": "O(...)",
+  "answer_code": "모범 답안 코드 문자열",
+  "inline_suggestions": [
+    {"path":"허용 라인에 있는 정확한 파일 경로","start_line":21,"line":23,"body":"개선 코멘트","suggestion":"21~23번 라인을 대체할 코드"}
+  ]
+}
+
+제약:
+- JSON 외 텍스트 출력 금지
+- inline_suggestions 최대 6개
+- inline_suggestions.path는 허용 라인에 나온 파일 경로 중 하나와 정확히 일치
+- summary_markdown에는 "왜 정답인지", "시간/공간 복잡도 평가", "코드 품질 개선 포인트", "대안 접근"을 반드시 포함
+- time_complexity/space_complexity는 Big-O 표기 포함 (예: O(N log N), O(H*N*M))
+- summary_markdown은 1200자 이내로 작성
+- answer_code는 220줄 이내로 작성
+- answer_code는 실제 줄바꿈을 사용한 여러 줄 코드로 작성 ("\\n" 문자열로 이스케이프하지 않음)
+- inline_suggestions가 1개 이상이면 answer_code에는 그 개선사항이 반드시 반영되어야 함
+- 라인을 바로 고칠 수 있는 코멘트는 suggestion에 start_line~line 라인을 대체할 코드만 작성 (원본 들여쓰기 유지, 코드펜스/설명 금지, 한 줄이면 start_line 생략)
+- start_line~line은 허용 라인 안의 연속된 라인이어야 하며, 설명만 필요한 코멘트는 start_line/suggestion을 생략
+- answer_code는 입력 코드와 완전히 동일한 코드를 그대로 복사하면 안 됨
+- 현재 알고리즘이 이미 최적이면, 알고리즘은 유지하되 코드 품질 개선(명확한 변수명/최소 스코프/구조 정리)을 반영
+- answer_code는 실행 가능한 형태로 작성
+
+리뷰 스타일:
+${buildStyleGuide(input.style)}
+
+허용 라인:
+${buildTargetGuide(input.reviewTargets)}
+
+문제 문서:
+${input.problemMarkdown}
+
+예제 입출력:
+${buildSampleGuide(input.samples)}
+
+예제 실행 결과:
+${buildJudgeGuide(input.judgeSummary)}
+
+PR 본문:
+${input.prBody}
+
+ASK (피드백 요청할 부분):
+${input.askRequest?.trim() || "없음"}
+
+변경 코드:
+${input.changedCodePrompt}
+`;
+}
+
+interface HintResponseShape {
+  summary_markdown: string;
+  hints: string[];
+  counterexamples?: Array<{ input: string; expected_output?: string; reason: string }>;
+  inline_suggestions?: Array<{ path: string; line: number; body: string }>;
+}
+
+export function buildHintPrompt(input: AiReviewInput): string {
+  return `
+당신은 코딩 테스트 학습 도우미다. 작성자는 아직 문제를 풀고 있는 중이다.
+반드시 JSON 객체 하나만 출력한다. Markdown/설명문/코드펜스 금지.
+
+필수 작업:
+1) 제출 코드가 어디까지 맞게 접근했는지, 어디서 막혔을지 진단한다.
+2) 스스로 풀 수 있도록 점점 구체적으로 좁혀 가는 힌트를 3~4단계로 작성한다. 첫 힌트는 방향만, 마지막 힌트도 코드 없이 아이디어만 제시한다.
+3) 현재 코드가 틀리거나 시간 초과가 날 만한 반례를 구체적인 입력으로 제시한다. "예제 실행 결과"에 실패한 예제가 있으면 그 원인부터 짚는다.
+4) 인라인 코멘트는 아래 "허용 라인"에 있는 라인 번호만 사용하고, 고칠 방향만 짚는다.
+5) 사용자가 ASK 필드에 남긴 요청이 있으면 해당 요청을 우선 반영한다.
+
+응답 JSON 스키마:
+{
+  "summary_markdown": "현재 접근에 대한 짧은 진단",
+  "hints": ["1단계 힌트", "2단계 힌트", "3단계 힌트"],
+  "counterexamples": [{"input":"반례 입력","expected_output":"기대 출력","reason":"이 입력이 문제가 되는 이유"}],
+  "inline_suggestions": [{"path":"허용 라인에 있는 정확한 파일 경로","line":23,"body":"고칠 방향"}]
+}
+
+금지:
+- 정답 코드, 코드 조각, 의사 코드 작성
+- 정답 알고리즘의 이름이나 최종 시간/공간 복잡도를 직접 밝히는 것 (마지막 힌트 제외)
+
+제약:
+- summary_markdown은 500자 이내
+- hints는 최대 4개, 각 300자 이내
+- counterexamples는 최대 3개
+- inline_suggestions는 최대 4개
+
+리뷰 스타일:
+${buildStyleGuide(input.style, "summary_markdown, hints, counterexamples.reason, inline_suggestions.body는")}
+
+허용 라인:
+${buildTargetGuide(input.reviewTargets)}
+
+문제 문서:
+${input.problemMarkdown}
+
+예제 입출력:
+${buildSampleGuide(input.samples)}
+
+예제 실행 결과:
+${buildJudgeGuide(input.judgeSummary)}
+
+ASK (피드백 요청할 부분):
+${input.askRequest?.trim() || "없음"}
+
+변경 코드:
+${input.changedCodePrompt}
+`;
+}
+
+export function parseHintResponse(text: string): AiHintResult | null {
+  const parsed = parseJsonObject<HintResponseShape>(text);
+  if (!parsed || !Array.isArray(parsed.hints)) return null;
+
+  const hints = parsed.hints.filter((hint) => typeof hint === "string" && hint.trim()).map((hint) => hint.trim());
+  if (hints.length === 0) return null;
+  return {
+    summaryMarkdown: (parsed.summary_markdown ?? "").trim(),
+    hints,
+    counterexamples: (parsed.counterexamples ?? [])
+      .filter((item) => item?.input?.trim() && item.reason?.trim())
+      .map((item) => ({
+        input: item.input.trim(),
+        expectedOutput: item.expected_output?.trim() || undefined,
+        reason: item.reason.trim()
+      })),
+    // Suggested changes would hand over the fix, so hint mode keeps only the comment.
+    inlineSuggestions: normalizeInline(parsed.inline_suggestions ?? []).map(({ path, line, body }) => ({ path, line, body }))
+  };
+}
+
+function buildNumberedCode(code: string, focusLines?: AiReplyInput["focusLines"]): string {
+  return code
+    .split("\n")
+    .map((line, index) => {
+      const lineNumber = index + 1;
+      const marker = focusLines && lineNumber >= focusLines.start && lineNumber <= focusLines.end ? ">" : " ";
+      return `${marker}${String(lineNumber).padStart(4)}: ${line}`;
+    })
+    .join("\n");
+}
+
+export function buildReplyPrompt(input: AiReplyInput): string {
+  const history = (input.history ?? []).map((message) => `[${message.author}]\n${message.body}`).join("\n\n");
+  const focus = input.focusLines ? `${input.focusLines.start}-${input.focusLines.end}번 라인("> " 표시)` : "없음";
+  return `
+당신은 코딩 테스트 리뷰 어시스턴트다.
+PR 작성자의 질문에 GitHub 코멘트로 답한다.
+
+규칙:
+- Markdown으로 답하고 JSON/코드펜스로 전체를 감싸지 않는다.
+- 질문에 직접 답하고, 근거가 되는 라인 번호를 함께 적는다.
+- 복잡도 질문에는 어떤 반복/재귀가 비용을 만드는지 구체적으로 설명한다.
+- 800자 이내로 작성한다.
+
+리뷰 스타일:
+${buildStyleGuide(input.style, "답변은")}
+
+문제 문서:
+${input.problemMarkdown}
+
+코드 (${input.path}, ${input.language}):
+${buildNumberedCode(input.code, input.focusLines)}
+
+주목할 라인:
+${focus}
+
+이전 대화:
+${history || "없음"}
+
+질문:
+${input.question}
+`;
+}
+
+export function buildAnswerRepairPrompt(input: AiAnswerRepairInput): string {
+  return `
+당신은 코딩 테스트 코드 수정 어시스턴트다.
+반드시 JSON 객체 하나만 출력한다. 설명/코드펜스 금지.
+
+응답 스키마:
+{
+  "answer_code": "수정한 전체 ${input.language} 코드"
+}
+
+규칙:
+- 아래 코드는 컴파일 또는 예제 실행에 실패했다. 실행 결과를 보고 원인을 고친 전체 코드를 작성한다.
+- 기존 풀이의 접근과 개선 의도는 유지하고, 실패 원인만 고친다.
+- 표준 입력으로 읽고 표준 출력으로 출력한다.
+- answer_code에는 실제 줄바꿈을 사용한다. ("\\n" 문자열 금지)
+
+문제 문서:
+${input.problemMarkdown}
+
+예제 입출력:
+${buildSampleGuide(input.samples)}
+
+수정할 코드:
+${input.answerCode}
+
+예제 실행 결과:
+${input.failureReport}
+`;
+}
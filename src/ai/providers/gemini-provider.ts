@@ -1,23 +1,28 @@
+import {
+  buildAnswerRepairPrompt,
+  buildHintPrompt,
+  buildJudgeGuide,
+  buildReplyPrompt,
+  buildReviewPrompt,
+  buildSampleGuide,
+  buildStyleGuide,
+  buildTargetGuide,
+  normalizeInline,
+  parseAnswerCodeResponse,
+  parseHintResponse,
+  parseReviewResponse,
+  stripCodeFence,
+  type ReviewResponseShape
+} from "../prompts.js";
 import type {
+  AiAnswerRepairInput,
+  AiHintResult,
   AiProvider,
+  AiReplyInput,
   AiReviewInput,
-  AiReviewResult,
-  InlineSuggestion,
-  ReviewTarget
+  AiReviewResult
 } from "../types.js";
 
-interface GeminiResponseShape {
-  summary_markdown: string;
-  time_complexity: string;
-  space_complexity: string;
-  answer_code: string;
-  inline_suggestions: Array<{
-    path: string;
-    line: number;
-    body: string;
-  }>;
-}
-
 interface GeminiApiResponse {
   candidates?: Array<{
     finishReason?: string;
@@ -44,7 +49,7 @@ interface GeminiGenerationConfig {
   temperature: number;
   maxOutputTokens: number;
   responseMimeType: string;
-  responseSchema: Record<string, unknown>;
+  responseSchema?: Record<string, unknown>;
   thinkingConfig?: {
     thinkingBudget: number;
   };
@@ -62,19 +67,6 @@ function toPositiveInt(value: string | undefined, fallback: number): number {
   return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : fallback;
 }
 
-function buildTargetGuide(targets: ReviewTarget[]): string {
-  if (targets.length === 0) return "라인 코멘트 대상 파일이 없습니다.";
-  return targets
-    .map((target) => `${target.path} -> [${target.addedLines.join(",") || "none"}]`)
-    .join("\n");
-}
-
-function stripCodeFence(text: string): string {
-  const trimmed = text.trim();
-  if (!trimmed.startsWith("```")) return trimmed;
-  return trimmed.replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "").trim();
-}
-
 function decodeJsonStringLike(value: string): string {
   try {
     return JSON.parse(`"${value.replace(/\r/g, "\\r").replace(/\n/g, "\\n")}"`) as string;
@@ -125,7 +117,7 @@ function extractJsonStringField(text: string, key: string): string | null {
   return raw.trim() ? decodeJsonStringLike(raw) : null;
 }
 
-function parseLooseInlineSuggestions(text: string): GeminiResponseShape["inline_suggestions"] {
+function parseLooseInlineSuggestions(text: string): ReviewResponseShape["inline_suggestions"] {
   const markerRegex = /"inline_suggestions"\s*:/m;
   const marker = markerRegex.exec(text);
   if (!marker) return [];
@@ -135,7 +127,7 @@ function parseLooseInlineSuggestions(text: string): GeminiResponseShape["inline_
   if (text[index] !== "[") return [];
 
   const slice = text.slice(index);
-  const results: GeminiResponseShape["inline_suggestions"] = [];
+  const results: ReviewResponseShape["inline_suggestions"] = [];
   const objectRegex =
     /{[\s\S]*?"path"\s*:\s*"([\s\S]*?)"[\s\S]*?"line"\s*:\s*(-?\d+)[\s\S]*?"body"\s*:\s*"([\s\S]*?)"[\s\S]*?}/g;
 
@@ -151,7 +143,7 @@ function parseLooseInlineSuggestions(text: string): GeminiResponseShape["inline_
   return results;
 }
 
-function parseLooseResponse(text: string): GeminiResponseShape | null {
+function parseLooseResponse(text: string): ReviewResponseShape | null {
   const stripped = stripCodeFence(text);
   const summary = extractJsonStringField(stripped, "summary_markdown");
   if (!summary) return null;
@@ -170,73 +162,9 @@ function parseLooseResponse(text: string): GeminiResponseShape | null {
   };
 }
 
-function parseResponse(text: string): GeminiResponseShape | null {
-  const tryParse = (input: string): GeminiResponseShape | null => {
-    try {
-      const parsed = JSON.parse(input) as GeminiResponseShape;
-      if (!parsed.summary_markdown || !parsed.answer_code || !Array.isArray(parsed.inline_suggestions)) {
-        return null;
-      }
-      return {
-        ...parsed,
-        time_complexity: parsed.time_complexity?.trim() || "O(unknown)",
-        space_complexity: parsed.space_complexity?.trim() || "O(unknown)"
-      };
-    } catch {
-      return null;
-    }
-  };
-
-  const stripped = stripCodeFence(text);
-  const direct = tryParse(stripped);
-  if (direct) return direct;
-
-  const firstBrace = stripped.indexOf("{");
-  const lastBrace = stripped.lastIndexOf("}");
-  if (firstBrace >= 0 && lastBrace > firstBrace) {
-    const sliced = stripped.slice(firstBrace, lastBrace + 1);
-    const slicedParsed = tryParse(sliced);
-    if (slicedParsed) return slicedParsed;
-  }
-
-  return parseLooseResponse(stripped);
-}
-
-function parseAnswerCodeOnly(text: string): string | null {
-  const tryParse = (input: string): string | null => {
-    try {
-      const parsed = JSON.parse(input) as { answer_code?: unknown };
-      if (typeof parsed.answer_code !== "string") return null;
-      const normalized = parsed.answer_code.trim();
-      return normalized.length > 0 ? normalized : null;
-    } catch {
-      return null;
-    }
-  };
-
-  const stripped = stripCodeFence(text);
-  const direct = tryParse(stripped);
-  if (direct) return direct;
-
-  const firstBrace = stripped.indexOf("{");
-  const lastBrace = stripped.lastIndexOf("}");
-  if (firstBrace >= 0 && lastBrace > firstBrace) {
-    return tryParse(stripped.slice(firstBrace, lastBrace + 1));
-  }
-
-  return null;
-}
-
-function normalizeInline(items: GeminiResponseShape["inline_suggestions"]): InlineSuggestion[] {
-  const results: InlineSuggestion[] = [];
-  for (const item of items) {
-    const path = item.path?.trim();
-    const line = Number(item.line);
-    const body = item.body?.trim();
-    if (!path || !body || !Number.isInteger(line) || line <= 0) continue;
-    results.push({ path, line, body });
-  }
-  return results;
+// Gemini output is often cut off at the token limit, so salvage what the loose parser can read.
+function parseResponse(text: string): ReviewResponseShape | null {
+  return parseReviewResponse(text) ?? parseLooseResponse(text);
 }
 
 function extractTextFromGeminiResponse(response: GeminiApiResponse): string | null {
@@ -290,66 +218,11 @@ function parseSseEventChunk(chunk: string): GeminiApiResponse[] {
   return events;
 }
 
-function buildPrompt(input: AiReviewInput): string {
-  return `
-당신은 코딩 테스트 리뷰 어시스턴트다.
-반드시 JSON 객체 하나만 출력한다. Markdown/설명문/코드펜스 금지.
-
-필수 작업:
-1) 제출 코드는 "정답(AC)"이라고 가정하고, 왜 정답인지 핵심 근거를 설명한다.
-2) 시간/공간 복잡도를 평가하고, 병목 가능성을 짚는다.
-3) 더 나은 접근(복잡도 개선 또는 구현 단순화)이 가능한지 검토한다.
-4) 코드 품질(변수명, 변수 선언 위치/스코프, 중복 로직, 매직넘버)을 리뷰한다.
-5) 모범 답안 코드를 ${input.language} 기준으로 작성한다.
-6) 인라인 코멘트는 아래 "허용 라인"에 있는 라인 번호만 사용한다.
-7) 사용자가 ASK 필드에 남긴 요청이 있으면 해당 요청을 우선 반영한다.
-
-응답 JSON 스키마:
-{
-  "summary_markdown": "## 총평\\n...\\n## 더 좋은 접근 제안\\n...\\n## 코드 레벨 개선 포인트\\n...\\n## 놓치기 쉬운 테스트 케이스\\n...",
-  "time_complexity": "O(...)",
-  "space_complexity": "O(...)",
-  "answer_code": "모범 답안 코드 문자열",
-  "inline_suggestions": [
-    {"path":"허용 라인에 있는 정확한 파일 경로","line":23,"body":"개선 코멘트"}
-  ]
-}
-
-제약:
-- JSON 외 텍스트 출력 금지
-- inline_suggestions 최대 6개
-- inline_suggestions.path는 허용 라인에 나온 파일 경로 중 하나와 정확히 일치
-- summary_markdown에는 "왜 정답인지", "시간/공간 복잡도 평가", "코드 품질 개선 포인트", "대안 접근"을 반드시 포함
-- time_complexity/space_complexity는 Big-O 표기 포함 (예: O(N log N), O(H*N*M))
-- summary_markdown은 1200자 이내로 작성
-- answer_code는 220줄 이내로 작성
-- answer_code는 실제 줄바꿈을 사용한 여러 줄 코드로 작성 ("\\n" 문자열로 이스케이프하지 않음)
-- inline_suggestions가 1개 이상이면 answer_code에는 그 개선사항이 반드시 반영되어야 함
-- answer_code는 입력 코드와 완전히 동일한 코드를 그대로 복사하면 안 됨
-- 현재 알고리즘이 이미 최적이면, 알고리즘은 유지하되 코드 품질 개선(명확한 변수명/최소 스코프/구조 정리)을 반영
-- answer_code는 실행 가능한 형태로 작성
-
-허용 라인:
-${buildTargetGuide(input.reviewTargets)}
-
-문제 문서:
-${input.problemMarkdown}
-
-PR 본문:
-${input.prBody}
-
-ASK (피드백 요청할 부분):
-${input.askRequest?.trim() || "없음"}
-
-변경 코드:
-${input.changedCodePrompt}
-`;
-}
-
 function buildCompactPrompt(input: AiReviewInput): string {
   const compactProblem = input.problemMarkdown.slice(0, 6000);
   const compactPrBody = input.prBody.slice(0, 2000);
   const compactChanged = input.changedCodePrompt.slice(0, 7000);
+  const compactSamples = buildSampleGuide(input.samples).slice(0, 1500);
   return `
 당신은 코딩 테스트 리뷰 어시스턴트다.
 반드시 "유효한 JSON 객체 1개"만 출력한다.
@@ -361,7 +234,7 @@ function buildCompactPrompt(input: AiReviewInput): string {
   "time_complexity": "O(...)",
   "space_complexity": "O(...)",
   "answer_code": "코드 문자열",
-  "inline_suggestions": [{"path":"파일경로","line":1,"body":"코멘트"}]
+  "inline_suggestions": [{"path":"파일경로","start_line":1,"line":2,"body":"코멘트","suggestion":"대체 코드"}]
 }
 
 제약:
@@ -372,14 +245,25 @@ function buildCompactPrompt(input: AiReviewInput): string {
 - time_complexity/space_complexity는 Big-O 표기 포함
 - answer_code는 실제 줄바꿈을 사용한 여러 줄 코드로 작성 ("\\n" 문자열 금지)
 - inline_suggestions가 1개 이상이면 answer_code에는 그 개선사항이 반드시 반영되어야 함
+- 라인을 바로 고칠 수 있는 코멘트는 suggestion에 start_line~line 라인을 대체할 코드만 작성 (원본 들여쓰기 유지, 코드펜스/설명 금지, 한 줄이면 start_line 생략)
+- start_line~line은 허용 라인 안의 연속된 라인이어야 하며, 설명만 필요한 코멘트는 start_line/suggestion을 생략
 - answer_code는 실행 가능 코드
 
+리뷰 스타일:
+${buildStyleGuide(input.style)}
+
 허용 라인:
 ${buildTargetGuide(input.reviewTargets)}
 
 문제 문서(요약):
 ${compactProblem}
 
+예제 입출력(요약):
+${compactSamples}
+
+예제 실행 결과:
+${buildJudgeGuide(input.judgeSummary).slice(0, 1500)}
+
 PR 본문(요약):
 ${compactPrBody}
 
@@ -430,8 +314,10 @@ function buildResponseSchema() {
           type: "OBJECT",
           properties: {
             path: { type: "STRING" },
+            start_line: { type: "INTEGER" },
             line: { type: "INTEGER" },
-            body: { type: "STRING" }
+            body: { type: "STRING" },
+            suggestion: { type: "STRING" }
           },
           required: ["path", "line", "body"]
         }
@@ -735,7 +621,7 @@ export class GeminiProvider implements AiProvider {
 - time_complexity (string)
 - space_complexity (string)
 - answer_code (string)
-- inline_suggestions (array of {path:string,line:number,body:string})
+- inline_suggestions (array of {path:string,line:number,body:string,start_line?:number,suggestion?:string})
 
 규칙:
 - 누락된 값이 있으면 최소값으로 채운다.
@@ -744,7 +630,8 @@ export class GeminiProvider implements AiProvider {
   - space_complexity: "O(unknown)"
   - answer_code: "/* answer_code unavailable */"
   - inline_suggestions: []
-- inline_suggestions.line은 정수만 허용
+- inline_suggestions.line/start_line은 정수만 허용
+- suggestion의 들여쓰기와 줄바꿈은 그대로 유지
 - 반드시 JSON 문법을 지켜라.
 
 원문:
@@ -752,7 +639,7 @@ ${sample}
 `;
   }
 
-  private async repairMalformedJson(model: string, raw: string): Promise<GeminiResponseShape | null> {
+  private async repairMalformedJson(model: string, raw: string): Promise<ReviewResponseShape | null> {
     const result = await this.requestWithRateLimitRetry(
       model,
       this.buildJsonRepairPrompt(raw),
@@ -780,6 +667,9 @@ ${sample}
 문제 문서:
 ${input.problemMarkdown}
 
+예제 입출력:
+${buildSampleGuide(input.samples)}
+
 PR 본문:
 ${input.prBody}
 
@@ -864,13 +754,13 @@ ${input.changedCodePrompt}
       this.buildAnswerCodeGenerationConfig()
     );
     if (result.kind !== "ok") return null;
-    return parseAnswerCodeOnly(result.raw);
+    return parseAnswerCodeResponse(result.raw);
   }
 
   private async finalizeResult(
     model: string,
     input: AiReviewInput,
-    parsed: GeminiResponseShape
+    parsed: ReviewResponseShape
   ): Promise<AiReviewResult> {
     let answerCode = parsed.answer_code.trim();
     let timeComplexity = parsed.time_complexity.trim() || "O(unknown)";
@@ -931,7 +821,7 @@ ${input.changedCodePrompt}
   }
 
   async generateReview(input: AiReviewInput): Promise<AiReviewResult | null> {
-    const prompts = [limitPrompt(buildPrompt(input), this.maxPromptChars)];
+    const prompts = [limitPrompt(buildReviewPrompt(input), this.maxPromptChars)];
     const compactPrompt = limitPrompt(buildCompactPrompt(input), this.maxPromptChars);
     if (compactPrompt !== prompts[0]) {
       prompts.push(compactPrompt);
@@ -1014,4 +904,117 @@ ${input.changedCodePrompt}
     if (fallbackRateLimited) return null;
     return null;
   }
+
+  private buildHintSchema() {
+    return {
+      type: "OBJECT",
+      properties: {
+        summary_markdown: { type: "STRING" },
+        hints: { type: "ARRAY", items: { type: "STRING" } },
+        counterexamples: {
+          type: "ARRAY",
+          items: {
+            type: "OBJECT",
+            properties: {
+              input: { type: "STRING" },
+              expected_output: { type: "STRING" },
+              reason: { type: "STRING" }
+            },
+            required: ["input", "reason"]
+          }
+        },
+        inline_suggestions: {
+          type: "ARRAY",
+          items: {
+            type: "OBJECT",
+            properties: {
+              path: { type: "STRING" },
+              line: { type: "INTEGER" },
+              body: { type: "STRING" }
+            },
+            required: ["path", "line", "body"]
+          }
+        }
+      },
+      required: ["summary_markdown", "hints", "counterexamples", "inline_suggestions"]
+    };
+  }
+
+  async generateHints(input: AiReviewInput): Promise<AiHintResult | null> {
+    const prompt = limitPrompt(buildHintPrompt(input), this.maxPromptChars);
+    const generationConfig: GeminiGenerationConfig = {
+      temperature: 0.3,
+      maxOutputTokens: Math.min(this.maxOutputTokens, 3072),
+      responseMimeType: "application/json",
+      responseSchema: this.buildHintSchema()
+    };
+
+    const models = [
+      { name: this.model, timeoutMs: this.timeoutMs },
+      ...(this.fallbackModel && this.fallbackModel !== this.model
+        ? [{ name: this.fallbackModel, timeoutMs: this.fallbackTimeoutMs }]
+        : [])
+    ];
+    for (const model of models) {
+      const result = await this.requestWithRateLimitRetry(model.name, prompt, model.timeoutMs, generationConfig);
+      if (result.kind === "rate_limited") return null;
+      if (result.kind === "failed") continue;
+
+      const parsed = parseHintResponse(result.raw);
+      if (parsed) return parsed;
+      console.error("Gemini hint response JSON parse failed", {
+        model: model.name,
+        preview: previewText(result.raw)
+      });
+    }
+    return null;
+  }
+
+  async generateReply(input: AiReplyInput): Promise<string | null> {
+    const prompt = limitPrompt(buildReplyPrompt(input), this.maxPromptChars);
+    const generationConfig: GeminiGenerationConfig = {
+      temperature: 0.3,
+      maxOutputTokens: Math.min(this.maxOutputTokens, 2048),
+      responseMimeType: "text/plain"
+    };
+
+    const models = [
+      { name: this.model, timeoutMs: this.timeoutMs },
+      ...(this.fallbackModel && this.fallbackModel !== this.model
+        ? [{ name: this.fallbackModel, timeoutMs: this.fallbackTimeoutMs }]
+        : [])
+    ];
+    for (const model of models) {
+      const result = await this.requestWithRateLimitRetry(model.name, prompt, model.timeoutMs, generationConfig);
+      if (result.kind === "rate_limited") return null;
+      if (result.kind === "ok") return result.raw.trim();
+    }
+    return null;
+  }
+
+  async repairAnswerCode(input: AiAnswerRepairInput): Promise<string | null> {
+    const prompt = limitPrompt(buildAnswerRepairPrompt(input), this.maxPromptChars);
+    const models = [
+      this.model,
+      ...(this.fallbackModel && this.fallbackModel !== this.model ? [this.fallbackModel] : [])
+    ];
+    for (const model of models) {
+      const result = await this.requestWithRateLimitRetry(
+        model,
+        prompt,
+        this.answerCodeTimeoutMs,
+        this.buildAnswerCodeGenerationConfig()
+      );
+      if (result.kind === "rate_limited") return null;
+      if (result.kind === "failed") continue;
+
+      const answerCode = parseAnswerCodeResponse(result.raw);
+      if (answerCode) return answerCode;
+      console.error("Gemini answer repair response JSON parse failed", {
+        model,
+        preview: previewText(result.raw)
+      });
+    }
+    return null;
+  }
 }
@@ -1,3 +1,5 @@
+import type { ProblemSample } from "../types.js";
+
 export interface ReviewTarget {
   path: string;
   patch: string;
@@ -5,6 +7,11 @@ export interface ReviewTarget {
   content: string;
 }
 
+export interface ReviewStyle {
+  language: "ko" | "en";
+  tone: "friendly" | "neutral" | "strict";
+}
+
 export interface AiReviewInput {
   problemMarkdown: string;
   prBody: string;
@@ -12,12 +19,34 @@ export interface AiReviewInput {
   askRequest?: string;
   changedCodePrompt: string;
   reviewTargets: ReviewTarget[];
+  samples: ProblemSample[];
+  judgeSummary?: string;
+  style?: ReviewStyle;
+}
+
+export interface ConversationMessage {
+  author: string;
+  body: string;
+}
+
+export interface AiReplyInput {
+  problemMarkdown: string;
+  language: string;
+  path: string;
+  code: string;
+  question: string;
+  focusLines?: { start: number; end: number };
+  history?: ConversationMessage[];
+  style?: ReviewStyle;
 }
 
 export interface InlineSuggestion {
   path: string;
   line: number;
   body: string;
+  // Replacement for lines startLine..line (or only line), posted as a GitHub suggested change.
+  startLine?: number;
+  suggestion?: string;
 }
 
 export interface AiReviewResult {
@@ -28,6 +57,32 @@ export interface AiReviewResult {
   inlineSuggestions: InlineSuggestion[];
 }
 
+export interface Counterexample {
+  input: string;
+  expectedOutput?: string;
+  reason: string;
+}
+
+// Hint mode never returns a solution or complexity verdict, only nudges the author can unfold one by one.
+export interface AiHintResult {
+  summaryMarkdown: string;
+  hints: string[];
+  counterexamples: Counterexample[];
+  inlineSuggestions: InlineSuggestion[];
+}
+
+// Sent back when the answer code failed to compile or pass the samples, so the model can fix its own code.
+export interface AiAnswerRepairInput {
+  problemMarkdown: string;
+  language: string;
+  samples: ProblemSample[];
+  answerCode: string;
+  failureReport: string;
+}
+
 export interface AiProvider {
   generateReview(input: AiReviewInput): Promise<AiReviewResult | null>;
+  generateHints(input: AiReviewInput): Promise<AiHintResult | null>;
+  generateReply(input: AiReplyInput): Promise<string | null>;
+  repairAnswerCode(input: AiAnswerRepairInput): Promise<string | null>;
 }
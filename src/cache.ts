@@ -0,0 +1,120 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { optionalEnv } from "./env.js";
+import type { CrawledProblem, SupportedSite } from "./types.js";
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+export interface CacheRecord<T> {
+  value: T;
+  expiresAt: number;
+}
+
+// Mirrors a DynamoDB table with a TTL attribute so a remote store can be dropped in later.
+export interface KeyValueStore<T> {
+  get(key: string): Promise<CacheRecord<T> | null>;
+  put(key: string, record: CacheRecord<T>): Promise<void>;
+}
+
+export class MemoryKeyValueStore<T> implements KeyValueStore<T> {
+  private readonly records = new Map<string, CacheRecord<T>>();
+
+  async get(key: string): Promise<CacheRecord<T> | null> {
+    return this.records.get(key) ?? null;
+  }
+
+  async put(key: string, record: CacheRecord<T>): Promise<void> {
+    this.records.set(key, record);
+  }
+}
+
+export class FileKeyValueStore<T> implements KeyValueStore<T> {
+  constructor(private readonly directory: string) {}
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${createHash("sha256").update(key).digest("hex")}.json`);
+  }
+
+  async get(key: string): Promise<CacheRecord<T> | null> {
+    try {
+      const parsed = JSON.parse(await readFile(this.pathFor(key), "utf-8")) as CacheRecord<T>;
+      if (!parsed || typeof parsed.expiresAt !== "number" || !parsed.value) return null;
+      return parsed;
+    } catch {
+      return null;
+    }
+  }
+
+  async put(key: string, record: CacheRecord<T>): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.pathFor(key), JSON.stringify(record), "utf-8");
+  }
+}
+
+export interface CachedProblem {
+  problem: CrawledProblem;
+  fresh: boolean;
+}
+
+export class ProblemCache {
+  constructor(
+    private readonly stores: KeyValueStore<CrawledProblem>[],
+    private readonly ttlMs: number
+  ) {}
+
+  private static key(site: SupportedSite, problemNumber: string): string {
+    return `problem:${site}:${problemNumber.trim().toLowerCase()}`;
+  }
+
+  // Returns stale records too; callers decide whether an expired copy beats a failed crawl.
+  async get(site: SupportedSite, problemNumber: string): Promise<CachedProblem | null> {
+    const key = ProblemCache.key(site, problemNumber);
+    for (const [index, store] of this.stores.entries()) {
+      const record = await store.get(key);
+      if (!record) continue;
+
+      await Promise.all(this.stores.slice(0, index).map((earlier) => this.safePut(earlier, key, record)));
+      return { problem: record.value, fresh: record.expiresAt > Date.now() };
+    }
+    return null;
+  }
+
+  async set(site: SupportedSite, problemNumber: string, problem: CrawledProblem): Promise<void> {
+    const key = ProblemCache.key(site, problemNumber);
+    const record = { value: problem, expiresAt: Date.now() + this.ttlMs };
+    await Promise.all(this.stores.map((store) => this.safePut(store, key, record)));
+  }
+
+  private async safePut(
+    store: KeyValueStore<CrawledProblem>,
+    key: string,
+    record: CacheRecord<CrawledProblem>
+  ): Promise<void> {
+    try {
+      await store.put(key, record);
+    } catch (error) {
+      console.error("Problem cache write failed", {
+        key,
+        message: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+let defaultProblemCache: ProblemCache | null = null;
+
+export function getProblemCache(): ProblemCache {
+  if (defaultProblemCache) return defaultProblemCache;
+
+  const ttlHours = Number(optionalEnv("PROBLEM_CACHE_TTL_HOURS") ?? DEFAULT_TTL_HOURS);
+  const ttlMs = (Number.isFinite(ttlHours) && ttlHours >= 0 ? ttlHours : DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+  const directory = optionalEnv("PROBLEM_CACHE_DIR") ?? join(tmpdir(), "ct-review-problem-cache");
+
+  defaultProblemCache = new ProblemCache(
+    [new MemoryKeyValueStore<CrawledProblem>(), new FileKeyValueStore<CrawledProblem>(directory)],
+    ttlMs
+  );
+  return defaultProblemCache;
+}
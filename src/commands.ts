@@ -0,0 +1,57 @@
+export type SlashCommand =
+  | { name: "review"; focus?: string }
+  | { name: "hint" }
+  | { name: "answer" }
+  | { name: "skip-sync" }
+  | { name: "explain"; startLine: number; endLine: number; path?: string }
+  | { name: "unknown"; raw: string };
+
+export const SKIP_SYNC_LABEL = "ct-review:skip-sync";
+export const HINT_MODE_LABEL = "ct-review:hint";
+
+export const COMMAND_USAGE = `
+사용 가능한 명령어:
+
+- \`/review\`: AI 리뷰를 다시 실행합니다.
+- \`/review focus: 시간복잡도\`: 지정한 관점에 집중해 다시 리뷰합니다.
+- \`/hint\`: 모범 답안 없이 힌트 위주로 리뷰합니다.
+- \`/answer\`: 힌트 모드여도 모범 답안 코드를 포함해 다시 리뷰합니다.
+- \`/skip-sync\`: 이 PR에서는 문제 README/코드 파일을 커밋하지 않습니다.
+- \`/explain L23\` 또는 \`/explain Main.java L23-L30\`: 해당 라인을 설명합니다.
+`;
+
+function parseExplain(args: string): SlashCommand | null {
+  // `L23`, `L23-L30`, `23-30`, optionally preceded by a file path.
+  const match = args.match(/^(?:(\S+)\s+)?L?(\d+)(?:\s*-\s*L?(\d+))?$/i);
+  if (!match) return null;
+  const startLine = Number(match[2]);
+  const endLine = Number(match[3] ?? match[2]);
+  if (startLine <= 0 || endLine < startLine) return null;
+  return { name: "explain", startLine, endLine, path: match[1] };
+}
+
+// Only the first line is read, so a command can be followed by free-form text.
+// Unrecognised names ("/etc path", commands meant for other bots) are not ours and return null;
+// "unknown" is only for our own commands with arguments we cannot read.
+export function parseSlashCommand(body: string | null | undefined): SlashCommand | null {
+  const firstLine = (body ?? "").trim().split(/\r?\n/)[0]?.trim() ?? "";
+  const match = firstLine.match(/^\/([a-z-]+)(?:\s+(.*))?$/i);
+  if (!match) return null;
+
+  const name = match[1].toLowerCase();
+  const args = (match[2] ?? "").trim();
+  switch (name) {
+    case "review": {
+      const focus = args.replace(/^focus\s*[:：]\s*/i, "").trim();
+      return { name: "review", focus: focus || undefined };
+    }
+    case "hint":
+    case "answer":
+    case "skip-sync":
+      return { name };
+    case "explain":
+      return parseExplain(args) ?? { name: "unknown", raw: firstLine };
+    default:
+      return null;
+  }
+}
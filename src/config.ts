@@ -0,0 +1,249 @@
+import { parseDocument } from "yaml";
+import type { ReviewStyle } from "./ai/types.js";
+import { SUPPORTED_LANGUAGES, type SupportedReviewLanguage } from "./languages.js";
+import { parseSite, type TemplateFieldError } from "./parser.js";
+import type { OutputFormat } from "./markdown.js";
+import {
+  BAEKJOONHUB_PATH_TEMPLATES,
+  DEFAULT_PATH_TEMPLATES,
+  findUnknownPlaceholders,
+  PATH_PLACEHOLDERS,
+  type PathTemplates
+} from "./paths.js";
+import { SUPPORTED_SITES } from "./sites.js";
+import { DEFAULT_SOLVED_INDEX_PATH } from "./solvedindex.js";
+import { DEFAULT_SOLVE_LOG_PATH } from "./solvelog.js";
+import type { SupportedSite } from "./types.js";
+
+export const REPO_CONFIG_PATH = ".github/ct-review.yml";
+
+export type AiProviderName = "gemini" | "openai";
+
+export interface RepoConfig {
+  sites: SupportedSite[];
+  languages: SupportedReviewLanguage[];
+  format: OutputFormat;
+  paths: PathTemplates & {
+    index: string;
+    solveLog: string;
+  };
+  ai: {
+    provider?: AiProviderName;
+    model?: string;
+  };
+  review: ReviewStyle & {
+    maxInlineComments: number;
+  };
+  features: {
+    commitSync: boolean;
+    answerCode: boolean;
+    inlineReview: boolean;
+    solvedIndex: boolean;
+    solveLog: boolean;
+    hintMode: boolean;
+    judge: boolean;
+    incrementalReview: boolean;
+  };
+}
+
+export interface LoadedRepoConfig {
+  config: RepoConfig;
+  errors: TemplateFieldError[];
+}
+
+export function defaultRepoConfig(): RepoConfig {
+  return {
+    sites: [...SUPPORTED_SITES],
+    languages: [...SUPPORTED_LANGUAGES],
+    format: "default",
+    paths: { ...DEFAULT_PATH_TEMPLATES, index: DEFAULT_SOLVED_INDEX_PATH, solveLog: DEFAULT_SOLVE_LOG_PATH },
+    ai: {},
+    review: { language: "ko", tone: "friendly", maxInlineComments: 8 },
+    features: { commitSync: true, answerCode: true, inlineReview: true, solvedIndex: true, solveLog: true, hintMode: true, judge: false, incrementalReview: true }
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Reads a nested mapping; unknown keys are reported but do not invalidate the rest of the file.
+function readSection(
+  root: Record<string, unknown>,
+  key: string,
+  allowedKeys: string[],
+  errors: TemplateFieldError[]
+): Record<string, unknown> {
+  const value = root[key];
+  if (value === undefined || value === null) return {};
+  if (!isPlainObject(value)) {
+    errors.push({ field: key, message: "key: value 형식의 매핑이어야 합니다." });
+    return {};
+  }
+  for (const child of Object.keys(value)) {
+    if (!allowedKeys.includes(child)) {
+      errors.push({ field: `${key}.${child}`, message: `알 수 없는 필드입니다. (사용 가능: ${allowedKeys.join(", ")})` });
+    }
+  }
+  return value;
+}
+
+function readEnum<T extends string>(
+  value: unknown,
+  field: string,
+  allowed: readonly T[],
+  errors: TemplateFieldError[]
+): T | undefined {
+  if (value === undefined || value === null) return undefined;
+  const match = allowed.find((item) => typeof value === "string" && item.toLowerCase() === value.trim().toLowerCase());
+  if (!match) errors.push({ field, message: `${allowed.join(" | ")} 중 하나여야 합니다.` });
+  return match;
+}
+
+function readEnumList<T extends string>(
+  value: unknown,
+  field: string,
+  allowed: readonly T[],
+  errors: TemplateFieldError[]
+): T[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push({ field, message: `${allowed.join(", ")} 중 하나 이상을 담은 목록이어야 합니다.` });
+    return undefined;
+  }
+  const items = value
+    .map((item, index) => readEnum(item, `${field}[${index}]`, allowed, errors))
+    .filter((item): item is T => Boolean(item));
+  return items.length > 0 ? [...new Set(items)] : undefined;
+}
+
+function readString(value: unknown, field: string, errors: TemplateFieldError[]): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === "string" && value.trim()) return value.trim();
+  errors.push({ field, message: "비어 있지 않은 문자열이어야 합니다." });
+  return undefined;
+}
+
+function readBoolean(value: unknown, field: string, errors: TemplateFieldError[]): boolean | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === "boolean") return value;
+  errors.push({ field, message: "true 또는 false여야 합니다." });
+  return undefined;
+}
+
+function readPositiveInt(value: unknown, field: string, errors: TemplateFieldError[]): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === "number" && Number.isInteger(value) && value > 0) return value;
+  errors.push({ field, message: "1 이상의 정수여야 합니다." });
+  return undefined;
+}
+
+function readPathTemplate(
+  value: unknown,
+  field: string,
+  requiredPlaceholders: string[],
+  errors: TemplateFieldError[]
+): string | undefined {
+  const template = readString(value, field, errors)?.replace(/^\/+|\/+$/g, "");
+  if (!template) return undefined;
+
+  const unknown = findUnknownPlaceholders(template);
+  if (unknown.length > 0) {
+    errors.push({
+      field,
+      message: `알 수 없는 치환자입니다: ${unknown.map((key) => `{${key}}`).join(", ")} (사용 가능: ${PATH_PLACEHOLDERS.map((key) => `{${key}}`).join(", ")})`
+    });
+    return undefined;
+  }
+  const missing = ["{number}", ...requiredPlaceholders].filter((placeholder) => !template.includes(placeholder));
+  if (missing.length > 0) {
+    errors.push({ field, message: `${missing.join(", ")}가 포함되어야 합니다.` });
+    return undefined;
+  }
+  return template;
+}
+
+export function parseRepoConfig(source: string): LoadedRepoConfig {
+  const config = defaultRepoConfig();
+  const errors: TemplateFieldError[] = [];
+
+  const document = parseDocument(source);
+  if (document.errors.length > 0) {
+    const [first] = document.errors;
+    const line = first.linePos?.[0]?.line;
+    const reason = first.message.split("\n")[0].replace(/ at line \d+, column \d+:?$/, "");
+    return { config, errors: [{ field: "yaml", message: `YAML 문법 오류${line ? ` (${line}번째 줄)` : ""}: ${reason}` }] };
+  }
+
+  const root: unknown = document.toJS() ?? {};
+  if (!isPlainObject(root)) {
+    return { config, errors: [{ field: "(root)", message: "key: value 형식의 매핑이어야 합니다." }] };
+  }
+
+  const topLevelKeys = ["sites", "languages", "format", "paths", "ai", "review", "features"];
+  for (const key of Object.keys(root)) {
+    if (!topLevelKeys.includes(key)) {
+      errors.push({ field: key, message: `알 수 없는 필드입니다. (사용 가능: ${topLevelKeys.join(", ")})` });
+    }
+  }
+
+  // Site names accept the same aliases as the PR template (e.g. 백준, CF).
+  const sites = Array.isArray(root.sites)
+    ? root.sites.map((item) => (typeof item === "string" ? parseSite(item) ?? item : item))
+    : root.sites;
+  config.sites = readEnumList(sites, "sites", SUPPORTED_SITES, errors) ?? config.sites;
+  config.languages = readEnumList(root.languages, "languages", SUPPORTED_LANGUAGES, errors) ?? config.languages;
+
+  config.format = readEnum(root.format, "format", ["default", "baekjoonhub"] as const, errors) ?? config.format;
+  if (config.format === "baekjoonhub") config.paths = { ...config.paths, ...BAEKJOONHUB_PATH_TEMPLATES };
+
+  const paths = readSection(root, "paths", ["directory", "readme", "code", "index", "solve_log"], errors);
+  // `directory` is a shorthand that keeps the default README/code file names inside a custom folder.
+  const directory = readPathTemplate(paths.directory, "paths.directory", [], errors);
+  if (directory) {
+    config.paths = { ...config.paths, readme: `${directory}/README.md`, code: `${directory}/{title}{ext}` };
+  }
+  config.paths.readme = readPathTemplate(paths.readme, "paths.readme", [], errors) ?? config.paths.readme;
+  config.paths.code = readPathTemplate(paths.code, "paths.code", ["{ext}"], errors) ?? config.paths.code;
+  config.paths.index = readString(paths.index, "paths.index", errors)?.replace(/^\/+/, "") ?? config.paths.index;
+  config.paths.solveLog =
+    readString(paths.solve_log, "paths.solve_log", errors)?.replace(/^\/+/, "") ?? config.paths.solveLog;
+
+  const ai = readSection(root, "ai", ["provider", "model"], errors);
+  config.ai.provider = readEnum(ai.provider, "ai.provider", ["gemini", "openai"] as const, errors);
+  config.ai.model = readString(ai.model, "ai.model", errors);
+
+  const review = readSection(root, "review", ["language", "tone", "max_inline_comments"], errors);
+  config.review.language = readEnum(review.language, "review.language", ["ko", "en"] as const, errors) ?? config.review.language;
+  config.review.tone =
+    readEnum(review.tone, "review.tone", ["friendly", "neutral", "strict"] as const, errors) ?? config.review.tone;
+  config.review.maxInlineComments =
+    readPositiveInt(review.max_inline_comments, "review.max_inline_comments", errors) ?? config.review.maxInlineComments;
+
+  const features = readSection(
+    root,
+    "features",
+    ["commit_sync", "answer_code", "inline_review", "solved_index", "solve_log", "hint_mode", "judge", "incremental_review"],
+    errors
+  );
+  config.features.commitSync = readBoolean(features.commit_sync, "features.commit_sync", errors) ?? config.features.commitSync;
+  config.features.answerCode = readBoolean(features.answer_code, "features.answer_code", errors) ?? config.features.answerCode;
+  config.features.inlineReview =
+    readBoolean(features.inline_review, "features.inline_review", errors) ?? config.features.inlineReview;
+  config.features.solvedIndex =
+    readBoolean(features.solved_index, "features.solved_index", errors) ?? config.features.solvedIndex;
+  config.features.solveLog = readBoolean(features.solve_log, "features.solve_log", errors) ?? config.features.solveLog;
+  config.features.hintMode = readBoolean(features.hint_mode, "features.hint_mode", errors) ?? config.features.hintMode;
+  config.features.judge = readBoolean(features.judge, "features.judge", errors) ?? config.features.judge;
+  config.features.incrementalReview =
+    readBoolean(features.incremental_review, "features.incremental_review", errors) ?? config.features.incrementalReview;
+
+  return { config, errors };
+}
+
+// Appended to the AI review comment, so a typo in the config is visible where its effect shows up.
+export function buildConfigErrorNotice(errors: TemplateFieldError[]): string {
+  if (errors.length === 0) return "";
+  const lines = errors.map((error) => `> - \`${error.field}\`: ${error.message}`);
+  return `\n\n> ⚠️ \`${REPO_CONFIG_PATH}\` 설정 오류로 아래 항목은 기본값을 사용했습니다.\n${lines.join("\n")}`;
+}
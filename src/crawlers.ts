@@ -1,5 +1,14 @@
-import { load } from "cheerio";
-import type { CrawledProblem, PrProblemMetadata } from "./types.js";
+import { load, type CheerioAPI } from "cheerio";
+import { getProblemCache } from "./cache.js";
+import { siteDisplayName } from "./sites.js";
+import { enrichWithSolvedAc } from "./solvedac.js";
+import type {
+  CrawledProblem,
+  PrProblemMetadata,
+  ProblemSample,
+  ProblemStatement,
+  SupportedSite
+} from "./types.js";
 
 const BROWSER_USER_AGENT =
   "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36";
@@ -11,6 +20,15 @@ class ForbiddenFetchError extends Error {
   }
 }
 
+// The site answered, but the statement itself cannot be read (Premium-only, no detail page address).
+// `placeholder` carries whatever was learned plus a note for the README; it is never cached.
+class ProblemUnavailableError extends Error {
+  constructor(public readonly placeholder: CrawledProblem) {
+    super(`Problem statement is unavailable: ${placeholder.problemUrl}`);
+    this.name = "ProblemUnavailableError";
+  }
+}
+
 function getCandidateHeaders(url: string): HeadersInit[] {
   const origin = new URL(url).origin;
   const base = {
@@ -45,7 +63,57 @@ async function fetchHtml(url: string): Promise<string> {
   throw new ForbiddenFetchError(url);
 }
 
+async function fetchJson<T>(url: string, body: unknown): Promise<T> {
+  for (const headers of getCandidateHeaders(url)) {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { ...headers, accept: "application/json", "content-type": "application/json" },
+      body: JSON.stringify(body),
+      redirect: "follow"
+    });
+
+    if (response.ok) {
+      return (await response.json()) as T;
+    }
+
+    if (response.status === 403) {
+      continue;
+    }
+
+    throw new Error(`Failed to fetch problem data: ${response.status}`);
+  }
+
+  throw new ForbiddenFetchError(url);
+}
+
+function parseCodeforcesProblemId(problemNumber: string): { contestId: string; index: string } | null {
+  const match = problemNumber.replace(/\s+/g, "").match(/^(\d+)([A-Za-z]\d?)$/);
+  if (!match) return null;
+  return { contestId: match[1], index: match[2].toUpperCase() };
+}
+
 function defaultProblemUrl(site: PrProblemMetadata["site"], problemNumber: string): string {
+  if (site === "CODEFORCES") {
+    const parsed = parseCodeforcesProblemId(problemNumber);
+    if (!parsed) return `https://codeforces.com/problemset`;
+    // Gym contests have ids >= 100000 and are not listed under /problemset.
+    return Number(parsed.contestId) >= 100000
+      ? `https://codeforces.com/gym/${parsed.contestId}/problem/${parsed.index}`
+      : `https://codeforces.com/problemset/problem/${parsed.contestId}/${parsed.index}`;
+  }
+
+  if (site === "LEETCODE") {
+    return `https://leetcode.com/problems/${problemNumber}/`;
+  }
+
+  if (site === "SWEA") {
+    return `https://swexpertacademy.com/main/code/problem/problemList.do?problemTitle=${encodeURIComponent(problemNumber)}`;
+  }
+
+  if (site === "SOFTEER") {
+    return `https://softeer.ai/practice/${problemNumber}`;
+  }
+
   return site === "PROGRAMMERS"
     ? `https://school.programmers.co.kr/learn/courses/30/lessons/${problemNumber}`
     : `https://www.acmicpc.net/problem/${problemNumber}`;
@@ -66,6 +134,36 @@ function pickProblemUrl(site: PrProblemMetadata["site"], problemNumber: string,
       return defaultProblemUrl(site, problemNumber);
     }
 
+    if (site === "CODEFORCES") {
+      const validHost = /(^|\.)codeforces\.com$/i.test(url.hostname);
+      const validPath = /\/(problemset\/problem\/\d+|(contest|gym)\/\d+\/problem)\/[A-Za-z]\d?\/?$/.test(url.pathname);
+      if (validHost && validPath) return trimmed;
+      return defaultProblemUrl(site, problemNumber);
+    }
+
+    if (site === "LEETCODE") {
+      const validHost = /(^|\.)leetcode\.com$/i.test(url.hostname);
+      // Compare the whole slug segment, so `two-sum` does not accept a link to `two-sum-ii-...`.
+      const slug = url.pathname.match(/^\/problems\/([^/]+)/)?.[1]?.toLowerCase();
+      const validPath = slug === problemNumber.toLowerCase();
+      if (validHost && validPath) return trimmed;
+      return defaultProblemUrl(site, problemNumber);
+    }
+
+    if (site === "SWEA") {
+      const validHost = /(^|\.)swexpertacademy\.com$/i.test(url.hostname);
+      const validQuery = url.searchParams.has("contestProbId");
+      if (validHost && validQuery) return trimmed;
+      return defaultProblemUrl(site, problemNumber);
+    }
+
+    if (site === "SOFTEER") {
+      const validHost = /(^|\.)softeer\.ai$/i.test(url.hostname);
+      const validPath = /\/practice\/\d+/.test(url.pathname);
+      if (validHost && validPath) return trimmed;
+      return defaultProblemUrl(site, problemNumber);
+    }
+
     const validHost = /(^|\.)acmicpc\.net$/i.test(url.hostname);
     const validPath = /\/problem\/\d+/.test(url.pathname);
     if (validHost && validPath) return trimmed;
@@ -75,6 +173,29 @@ function pickProblemUrl(site: PrProblemMetadata["site"], problemNumber: string,
   }
 }
 
+function toSampleText(raw: string): string {
+  return raw.replace(/\r/g, "").replace(/^\n+/, "").replace(/\s+$/, "");
+}
+
+function extractBojSamples($: CheerioAPI): ProblemSample[] {
+  const samples: ProblemSample[] = [];
+  $("pre[id^='sample-input-']").each((_, el) => {
+    const index = $(el).attr("id")?.replace("sample-input-", "");
+    if (!index) return;
+
+    const output = $(`#sample-output-${index}`);
+    if (output.length === 0) return;
+
+    const explanation = $(`#sample_explain_${index}`).text().trim();
+    samples.push({
+      input: toSampleText($(el).text()),
+      output: toSampleText(output.text()),
+      ...(explanation ? { explanation } : {})
+    });
+  });
+  return samples;
+}
+
 async function crawlBoj(problemNumber: string, problemUrl?: string): Promise<CrawledProblem> {
   const targetUrl = pickProblemUrl("BOJ", problemNumber, problemUrl);
   const html = await fetchHtml(targetUrl);
@@ -92,7 +213,8 @@ async function crawlBoj(problemNumber: string, problemUrl?: string): Promise<Cra
     classification,
     descriptionHtml,
     inputHtml,
-    outputHtml
+    outputHtml,
+    samples: extractBojSamples($)
   };
 }
 
@@ -100,6 +222,70 @@ function firstNonEmpty(values: Array<string | undefined | null>): string {
   return values.find((value) => value && value.trim().length > 0)?.trim() ?? "";
 }
 
+function findSectionHeading($: CheerioAPI, headings: string[]) {
+  return $("h1, h2, h3, h4, h5, h6")
+    .filter((_, el) => headings.includes($(el).text().trim()))
+    .first();
+}
+
+function extractProgrammersSampleExplanations($: CheerioAPI): Map<number, string> {
+  const explanations = new Map<number, string>();
+  const heading = findSectionHeading($, ["입출력 예 설명"]);
+  if (heading.length === 0) return explanations;
+
+  let current: number | null = null;
+  heading.nextUntil("h1, h2, h3, h4, h5, h6").each((_, el) => {
+    const text = $(el).text().trim();
+    const marker = text.match(/^입출력 예\s*#(\d+)/);
+    if (marker) {
+      current = Number(marker[1]);
+      const rest = text.slice(marker[0].length).trim();
+      explanations.set(current, rest);
+      return;
+    }
+    if (current === null || !text) return;
+    const previous = explanations.get(current);
+    explanations.set(current, previous ? `${previous}\n${text}` : text);
+  });
+
+  return explanations;
+}
+
+// The 입출력 예 table has one column per parameter followed by a result column.
+function extractProgrammersSamples($: CheerioAPI): ProblemSample[] {
+  const heading = findSectionHeading($, ["입출력 예"]);
+  const table = heading.length > 0 ? heading.nextAll("table").first() : $(".guide-section table").last();
+  if (table.length === 0) return [];
+
+  const headers = table
+    .find("thead th, tr:first-child th")
+    .map((_, el) => $(el).text().trim())
+    .get();
+  if (headers.length < 2) return [];
+
+  const explanations = extractProgrammersSampleExplanations($);
+  const samples: ProblemSample[] = [];
+  table.find("tbody tr").each((rowIndex, row) => {
+    const cells = $(row)
+      .find("td")
+      .map((_, el) => $(el).text().trim())
+      .get();
+    if (cells.length !== headers.length) return;
+
+    const explanation = explanations.get(rowIndex + 1);
+    samples.push({
+      input: headers
+        .slice(0, -1)
+        .map((header, index) => `${header} = ${cells[index]}`)
+        .join("\n"),
+      output: cells[cells.length - 1],
+      ...(explanation ? { explanation } : {})
+    });
+  });
+
+  return samples;
+}
+
 async function crawlProgrammers(problemNumber: string, problemUrl?: string): Promise<CrawledProblem> {
   const targetUrl = pickProblemUrl("PROGRAMMERS", problemNumber, problemUrl);
   const html = await fetchHtml(targetUrl);
@@ -136,12 +322,237 @@ async function crawlProgrammers(problemNumber: string, problemUrl?: string): Pro
     classification,
     descriptionHtml,
     inputHtml,
-    outputHtml
+    outputHtml,
+    samples: extractProgrammersSamples($)
+  };
+}
+
+function extractCodeforcesPreText($: CheerioAPI, pre: ReturnType<CheerioAPI>): string {
+  // Newer statements wrap every line of a test in its own `.test-example-line` div instead of using newlines.
+  const lines = pre.find(".test-example-line");
+  if (lines.length > 0) {
+    return toSampleText(
+      lines
+        .map((_, el) => $(el).text())
+        .get()
+        .join("\n")
+    );
+  }
+  return toSampleText(pre.text());
+}
+
+function extractCodeforcesSamples($: CheerioAPI): ProblemSample[] {
+  const inputs = $(".sample-test .input pre");
+  const outputs = $(".sample-test .output pre");
+  const samples: ProblemSample[] = [];
+  inputs.each((index, el) => {
+    const output = outputs.eq(index);
+    if (output.length === 0) return;
+    samples.push({
+      input: extractCodeforcesPreText($, $(el)),
+      output: extractCodeforcesPreText($, output)
+    });
+  });
+  return samples;
+}
+
+async function crawlCodeforces(problemNumber: string, problemUrl?: string): Promise<CrawledProblem> {
+  const targetUrl = pickProblemUrl("CODEFORCES", problemNumber, problemUrl);
+  const html = await fetchHtml(targetUrl);
+  const $ = load(html);
+
+  const statement = $(".problem-statement").first();
+  // Section bodies start with a `.section-title` heading ("Input", "Note", ...) that the README already renders.
+  statement.find(".section-title").remove();
+
+  const rawTitle = statement.find(".header .title").first().text().trim();
+  const title = rawTitle.replace(/^[A-Za-z]\d?\.\s*/, "") || `[Unknown] ${problemNumber}`;
+  const classification = $(".tag-box")
+    .map((_, el) => $(el).text().trim())
+    .get()
+    .filter((tag) => Boolean(tag) && !/^\*\d+$/.test(tag));
+  const descriptionHtml = statement.children("div").not("[class]").first().html()?.trim() ?? "";
+  const inputHtml = statement.find(".input-specification").first().html()?.trim() ?? "";
+  const outputHtml = statement.find(".output-specification").first().html()?.trim() ?? "";
+  const notesHtml = statement.find(".note").first().html()?.trim() ?? "";
+
+  return {
+    title,
+    problemUrl: targetUrl,
+    classification,
+    descriptionHtml,
+    inputHtml,
+    outputHtml,
+    notesHtml,
+    samples: extractCodeforcesSamples($)
   };
 }
 
+async function crawlSwea(problemNumber: string, problemUrl?: string): Promise<CrawledProblem> {
+  const targetUrl = pickProblemUrl("SWEA", problemNumber, problemUrl);
+
+  // SWEA detail pages are addressed by contestProbId, which cannot be derived from the visible problem number.
+  if (!new URL(targetUrl).searchParams.has("contestProbId")) {
+    throw new ProblemUnavailableError({
+      title: `SW Expert Academy 문제 ${problemNumber}`,
+      problemUrl: targetUrl,
+      classification: [],
+      descriptionHtml:
+        "SWEA 문제 페이지는 문제 번호만으로 찾을 수 없습니다. PR 본문의 URL에 contestProbId가 포함된 문제 링크를 넣어주세요.",
+      inputHtml: "",
+      outputHtml: "",
+      samples: []
+    });
+  }
+
+  const html = await fetchHtml(targetUrl);
+  const $ = load(html);
+
+  const rawTitle = firstNonEmpty([
+    $(".problem_box .problem_title").first().text(),
+    $(".problem_title").first().text(),
+    $('meta[property="og:title"]').attr("content"),
+    `[Unknown] ${problemNumber}`
+  ]);
+  const title = rawTitle.replace(/^\d+\.\s*/, "");
+  const classification = $(".problem_box .title_box .badge, .problem_box .title_box span[class*='level']")
+    .map((_, el) => $(el).text().trim())
+    .get()
+    .filter(Boolean);
+  const descriptionHtml = firstNonEmpty([
+    $("#problemContent").first().html(),
+    $(".box_type1 .box5").first().html(),
+    $(".problem_box").first().html()
+  ]);
+
+  return {
+    title,
+    problemUrl: targetUrl,
+    classification,
+    descriptionHtml,
+    inputHtml: $(".box_type1 .box5.input, #problemInput").first().html()?.trim() ?? "",
+    outputHtml: $(".box_type1 .box5.output, #problemOutput").first().html()?.trim() ?? "",
+    samples: []
+  };
+}
+
+function findSectionHtml($: CheerioAPI, headings: string[]): string {
+  return findSectionHeading($, headings)
+    .nextUntil("h1, h2, h3, h4, h5, h6")
+    .map((_, el) => $.html(el))
+    .get()
+    .join("")
+    .trim();
+}
+
+async function crawlSofteer(problemNumber: string, problemUrl?: string): Promise<CrawledProblem> {
+  const targetUrl = pickProblemUrl("SOFTEER", problemNumber, problemUrl);
+  const html = await fetchHtml(targetUrl);
+  const $ = load(html);
+
+  const title = firstNonEmpty([
+    $(".problem-title, .prob-title").first().text(),
+    $('meta[property="og:title"]').attr("content")?.replace(/\s*[|-]\s*Softeer.*$/i, ""),
+    `[Unknown] ${problemNumber}`
+  ]);
+  const classification = $(".problem-info .level, .prob-level")
+    .map((_, el) => $(el).text().trim())
+    .get()
+    .filter(Boolean);
+  const descriptionHtml = firstNonEmpty([
+    findSectionHtml($, ["문제", "문제 설명"]),
+    $(".problem-content, .prob-content").first().html(),
+    $('meta[property="og:description"]').attr("content")
+  ]);
+
+  return {
+    title,
+    problemUrl: targetUrl,
+    classification,
+    descriptionHtml,
+    inputHtml: findSectionHtml($, ["입력형식", "입력 형식", "입력"]),
+    outputHtml: findSectionHtml($, ["출력형식", "출력 형식", "출력"]),
+    samples: []
+  };
+}
+
+const LEETCODE_GRAPHQL_URL = "https://leetcode.com/graphql";
+
+const LEETCODE_QUESTION_QUERY = `
+query questionData($titleSlug: String!) {
+  question(titleSlug: $titleSlug) {
+    questionFrontendId
+    title
+    content
+    difficulty
+    isPaidOnly
+    topicTags {
+      name
+    }
+  }
+}
+`;
+
+interface LeetCodeQuestionResponse {
+  data?: {
+    question?: {
+      questionFrontendId?: string | null;
+      title?: string | null;
+      content?: string | null;
+      difficulty?: string | null;
+      isPaidOnly?: boolean | null;
+      topicTags?: Array<{ name?: string | null }> | null;
+    } | null;
+  };
+}
+
+function splitLeetCodeContent(content: string): { descriptionHtml: string; constraintsHtml: string } {
+  const marker = content.search(/<p>\s*<strong[^>]*>\s*Constraints:?\s*<\/strong>\s*<\/p>/i);
+  if (marker < 0) return { descriptionHtml: content.trim(), constraintsHtml: "" };
+  return {
+    descriptionHtml: content.slice(0, marker).trim(),
+    constraintsHtml: content.slice(marker).trim()
+  };
+}
+
+async function crawlLeetCode(slug: string, problemUrl?: string): Promise<CrawledProblem> {
+  const targetUrl = pickProblemUrl("LEETCODE", slug, problemUrl);
+  const response = await fetchJson<LeetCodeQuestionResponse>(LEETCODE_GRAPHQL_URL, {
+    operationName: "questionData",
+    query: LEETCODE_QUESTION_QUERY,
+    variables: { titleSlug: slug }
+  });
+
+  const question = response.data?.question;
+  if (!question) {
+    throw new Error(`LeetCode question not found: ${slug}`);
+  }
+
+  const content = question.content?.trim() ?? "";
+  const { descriptionHtml, constraintsHtml } = splitLeetCodeContent(content);
+  const problem: CrawledProblem = {
+    title: question.title?.trim() || `[Unknown] ${slug}`,
+    displayId: question.questionFrontendId?.trim() || undefined,
+    difficulty: question.difficulty?.trim() || undefined,
+    problemUrl: targetUrl,
+    classification: (question.topicTags ?? []).map((tag) => tag.name?.trim() ?? "").filter(Boolean),
+    descriptionHtml,
+    inputHtml: constraintsHtml,
+    outputHtml: "",
+    samples: []
+  };
+
+  if (!descriptionHtml && question.isPaidOnly) {
+    throw new ProblemUnavailableError({
+      ...problem,
+      descriptionHtml: "LeetCode Premium 전용 문제라 본문을 불러올 수 없습니다."
+    });
+  }
+  return problem;
+}
+
 function buildFallbackProblem(metadata: PrProblemMetadata): CrawledProblem {
-  const siteName = metadata.site === "PROGRAMMERS" ? "프로그래머스" : "백준";
+  const siteName = siteDisplayName(metadata.site ?? "BOJ");
   const problemNumber = metadata.problemNumber ?? "unknown";
   const problemUrl = pickProblemUrl(metadata.site, problemNumber, metadata.problemUrl);
 
@@ -150,29 +561,102 @@ function buildFallbackProblem(metadata: PrProblemMetadata): CrawledProblem {
     problemUrl,
     classification: [],
     descriptionHtml:
-      "문제 사이트가 크롤링 요청을 차단했습니다(HTTP 403). 문제 링크를 통해 직접 확인한 뒤, PR 본문의 Solution Summary를 자세히 작성해주세요.",
+      "문제 사이트가 크롤링 요청을 차단했습니다(HTTP 403). PR 본문에 `<details><summary>Problem Statement</summary>` 블록으로 문제 본문을 붙여넣거나, PR 본문의 Solution Summary를 자세히 작성해주세요.",
     inputHtml: "입력 설명을 자동 수집하지 못했습니다.",
-    outputHtml: "출력 설명을 자동 수집하지 못했습니다."
+    outputHtml: "출력 설명을 자동 수집하지 못했습니다.",
+    samples: []
   };
 }
 
+function buildStatementProblem(metadata: PrProblemMetadata, statement: ProblemStatement): CrawledProblem {
+  const siteName = metadata.site ? siteDisplayName(metadata.site) : metadata.siteLabel ?? "Unknown";
+  const problemNumber = metadata.problemNumber ?? "unknown";
+  const problemUrl = metadata.site
+    ? pickProblemUrl(metadata.site, problemNumber, metadata.problemUrl)
+    : metadata.problemUrl ?? "";
+
+  return {
+    title: statement.title ?? `${siteName} 문제 ${problemNumber}`,
+    problemUrl,
+    classification: [],
+    descriptionHtml: statement.description,
+    inputHtml: statement.input ?? "",
+    outputHtml: statement.output ?? "",
+    contentFormat: "markdown",
+    samples: []
+  };
+}
+
+async function crawlFromSite(site: SupportedSite, problemNumber: string, problemUrl?: string): Promise<CrawledProblem> {
+  switch (site) {
+    case "BOJ":
+      return enrichWithSolvedAc(await crawlBoj(problemNumber, problemUrl), problemNumber);
+    case "PROGRAMMERS":
+      return crawlProgrammers(problemNumber, problemUrl);
+    case "CODEFORCES":
+      return crawlCodeforces(problemNumber, problemUrl);
+    case "LEETCODE":
+      return crawlLeetCode(problemNumber, problemUrl);
+    case "SWEA":
+      return crawlSwea(problemNumber, problemUrl);
+    case "SOFTEER":
+      return crawlSofteer(problemNumber, problemUrl);
+    default:
+      throw new Error(`Unsupported site: ${String(site)}`);
+  }
+}
+
+// SWEA pages are addressed by contestProbId, so it is part of the key; without one there is nothing to cache.
+function problemCacheKey(site: SupportedSite, problemNumber: string, problemUrl?: string): string | undefined {
+  if (site !== "SWEA") return problemNumber;
+  const contestProbId = new URL(pickProblemUrl(site, problemNumber, problemUrl)).searchParams.get("contestProbId");
+  return contestProbId ? `${problemNumber}:${contestProbId}` : undefined;
+}
+
 export async function crawlProblem(metadata: PrProblemMetadata): Promise<CrawledProblem> {
+  if (!metadata.site && metadata.problemNumber && metadata.statement) {
+    return buildStatementProblem(metadata, metadata.statement);
+  }
   if (!metadata.site || !metadata.problemNumber) {
     throw new Error("Missing required metadata");
   }
 
+  const cache = getProblemCache();
+  const cacheKey = problemCacheKey(metadata.site, metadata.problemNumber, metadata.problemUrl);
+  const cached = cacheKey ? await cache.get(metadata.site, cacheKey) : null;
+  if (cached?.fresh && !metadata.forceRefresh) {
+    return cached.problem;
+  }
+
   try {
-    switch (metadata.site) {
-      case "BOJ":
-        return crawlBoj(metadata.problemNumber, metadata.problemUrl);
-      case "PROGRAMMERS":
-        return crawlProgrammers(metadata.problemNumber, metadata.problemUrl);
-      default:
-        throw new Error(`Unsupported site: ${String(metadata.site)}`);
-    }
+    const problem = await crawlFromSite(metadata.site, metadata.problemNumber, metadata.problemUrl);
+    if (cacheKey) await cache.set(metadata.site, cacheKey, problem);
+    return problem;
   } catch (error) {
+    // A stale copy is still better than the placeholder README when the site is unreachable.
+    if (cached) {
+      return cached.problem;
+    }
+    if (metadata.statement) {
+      const statementProblem = buildStatementProblem(metadata, metadata.statement);
+      // Keep what the site did tell us (title, id, tags) around the pasted statement.
+      return error instanceof ProblemUnavailableError
+        ? {
+            ...error.placeholder,
+            ...statementProblem,
+            title: metadata.statement.title ?? error.placeholder.title,
+            classification: error.placeholder.classification
+          }
+        : statementProblem;
+    }
+    if (error instanceof ProblemUnavailableError) {
+      return error.placeholder;
+    }
     if (error instanceof ForbiddenFetchError) {
-      return buildFallbackProblem(metadata);
+      const fallback = buildFallbackProblem(metadata);
+      return metadata.site === "BOJ"
+        ? enrichWithSolvedAc(fallback, metadata.problemNumber, { replaceTitle: true })
+        : fallback;
     }
     throw error;
   }
@@ -1,10 +1,19 @@
 import { Buffer } from "node:buffer";
 import type { Context } from "probot";
+import type { MetadataHints } from "./inference.js";
+import { buildGeneratedFileMatcher } from "./paths.js";
 
 const TEMPLATE_COMMENT_MARKER = "<!-- ct-assistant:template-check -->";
 const REVIEW_COMMENT_MARKER = "<!-- ct-assistant:ai-review -->";
 const LINE_REVIEW_MARKER = "<!-- ct-assistant:inline-review -->";
 const FILE_REVIEW_MARKER = "<!-- ct-assistant:file-review -->";
+const COMMAND_HELP_MARKER = "<!-- ct-assistant:command-help -->";
+const REVIEWED_SHA_PATTERN = /<!-- ct-assistant:reviewed-sha:([0-9a-f]{7,40}) -->/;
+const REVIEW_CHECK_NAME = "CT Review";
+// GitHub accepts at most 50 annotations per check run request.
+const MAX_CHECK_ANNOTATIONS = 50;
+const MAX_CHECK_SUMMARY_LENGTH = 60000;
+const BRANCH_UPDATE_ATTEMPTS = 3;
 
 export type PullRequestContext = Context<
   "pull_request.opened" | "pull_request.edited" | "pull_request.synchronize"
@@ -23,6 +32,8 @@ export interface InlineReviewComment {
   path: string;
   line: number;
   body: string;
+  startLine?: number;
+  suggestion?: string;
 }
 
 export interface InlineReviewResult {
@@ -41,17 +52,17 @@ interface FileLineIndex {
   addedLines: number[];
 }
 
-function isGeneratedProblemCodeFile(path: string): boolean {
-  return /^(백준|프로그래머스)\/[^/]+\/[^/]+\.(java|py|cpp|cc|cxx)$/.test(path);
-}
-async function upsertIssueComment(
+export type GeneratedFileMatcher = (path: string) => boolean;
+
+const isDefaultGeneratedFile: GeneratedFileMatcher = buildGeneratedFileMatcher();
+
+async function findBotComment(
   octokit: OctokitClient,
   owner: string,
   repo: string,
   issueNumber: number,
-  marker: string,
-  bodyWithoutMarker: string
-): Promise<void> {
+  marker: string
+) {
   const comments = await octokit.rest.issues.listComments({
     owner,
     repo,
@@ -59,9 +70,18 @@ async function upsertIssueComment(
     per_page: 100
   });
 
-  const existing = comments.data.find(
-    (comment) => comment.body?.includes(marker) && comment.user?.type === "Bot"
-  );
+  return comments.data.find((comment) => comment.body?.includes(marker) && comment.user?.type === "Bot");
+}
+
+async function upsertIssueComment(
+  octokit: OctokitClient,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  marker: string,
+  bodyWithoutMarker: string
+): Promise<void> {
+  const existing = await findBotComment(octokit, owner, repo, issueNumber, marker);
 
   const finalBody = `${marker}\n${bodyWithoutMarker}`;
   if (existing) {
@@ -227,6 +247,28 @@ function resolvePathForInlineComment(requestedPath: string, indexes: FileLineInd
   return null;
 }
 
+// A suggested change only applies to the exact lines it was written for, and GitHub requires the range in one hunk.
+function resolveSuggestion(
+  item: InlineReviewComment,
+  resolvedLine: number,
+  rightLines: number[]
+): Pick<InlineReviewComment, "startLine" | "suggestion"> {
+  if (!item.suggestion || resolvedLine !== item.line) return {};
+  const startLine = item.startLine ?? item.line;
+  const commentable = new Set(rightLines);
+  for (let line = startLine; line <= item.line; line += 1) {
+    if (!commentable.has(line)) return {};
+  }
+  return startLine < item.line ? { startLine, suggestion: item.suggestion } : { suggestion: item.suggestion };
+}
+
+function formatInlineCommentBody(item: InlineReviewComment): string {
+  if (!item.suggestion) return item.body;
+  const longestBacktickRun = Math.max(0, ...(item.suggestion.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(Math.max(3, longestBacktickRun + 1));
+  return `${item.body}\n\n${fence}suggestion\n${item.suggestion}\n${fence}`;
+}
+
 function findClosestReviewLine(targetLine: number, rightLines: number[], addedLines: number[]): number | null {
   if (!Number.isInteger(targetLine) || targetLine <= 0) return null;
   const candidates = rightLines.length > 0 ? rightLines : addedLines;
@@ -296,6 +338,21 @@ async function listPullFiles(
   return files;
 }
 
+async function listPullCommitMessages(
+  octokit: OctokitClient,
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<string[]> {
+  const response = await octokit.rest.pulls.listCommits({
+    owner,
+    repo,
+    pull_number: pullNumber,
+    per_page: 100
+  });
+  return response.data.map((commit) => commit.commit.message);
+}
+
 async function listPullReviews(
   octokit: OctokitClient,
   owner: string,
@@ -342,14 +399,19 @@ export async function upsertTemplateCheckCommentForIssue(
   await upsertIssueComment(octokit, owner, repo, issueNumber, TEMPLATE_COMMENT_MARKER, body);
 }
 
-export async function upsertAiReviewComment(context: PullRequestContext, body: string): Promise<void> {
+// The reviewed head SHA is kept in the comment so the next run can review only what changed since.
+export async function upsertAiReviewComment(
+  context: PullRequestContext,
+  body: string,
+  reviewedSha?: string
+): Promise<void> {
   await upsertIssueComment(
     context.octokit,
     context.payload.repository.owner.login,
     context.payload.repository.name,
     context.payload.pull_request.number,
     REVIEW_COMMENT_MARKER,
-    body
+    reviewedSha ? `${body}\n\n<!-- ct-assistant:reviewed-sha:${reviewedSha} -->` : body
   );
 }
 
@@ -384,19 +446,15 @@ export async function upsertFileLevelReviewComment(
 }
 
 export async function removeTemplateCheckComment(context: PullRequestContext): Promise<void> {
-  const issueNumber = context.payload.pull_request.number;
   const owner = context.payload.repository.owner.login;
   const repo = context.payload.repository.name;
 
-  const comments = await context.octokit.rest.issues.listComments({
+  const matched = await findBotComment(
+    context.octokit,
     owner,
     repo,
-    issue_number: issueNumber,
-    per_page: 100
-  });
-
-  const matched = comments.data.find(
-    (comment) => comment.body?.includes(TEMPLATE_COMMENT_MARKER) && comment.user?.type === "Bot"
+    context.payload.pull_request.number,
+    TEMPLATE_COMMENT_MARKER
   );
   if (!matched) return;
 
@@ -407,10 +465,348 @@ export async function removeTemplateCheckComment(context: PullRequestContext): P
   });
 }
 
+export async function upsertCommandHelpComment(context: PullRequestContext, body: string): Promise<void> {
+  await upsertIssueComment(
+    context.octokit,
+    context.payload.repository.owner.login,
+    context.payload.repository.name,
+    context.payload.pull_request.number,
+    COMMAND_HELP_MARKER,
+    body
+  );
+}
+
+export async function createPullComment(context: PullRequestContext, body: string): Promise<void> {
+  await context.octokit.rest.issues.createComment({
+    owner: context.payload.repository.owner.login,
+    repo: context.payload.repository.name,
+    issue_number: context.payload.pull_request.number,
+    body
+  });
+}
+
+export async function addIssueCommentReaction(
+  octokit: OctokitClient,
+  owner: string,
+  repo: string,
+  commentId: number,
+  content: "+1" | "-1" | "eyes" | "confused" | "rocket"
+): Promise<void> {
+  try {
+    await octokit.rest.reactions.createForIssueComment({ owner, repo, comment_id: commentId, content });
+  } catch (error) {
+    console.error("Failed to add comment reaction", {
+      owner,
+      repo,
+      commentId,
+      content,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+export async function isRepositoryCollaborator(
+  octokit: OctokitClient,
+  owner: string,
+  repo: string,
+  username: string
+): Promise<boolean> {
+  try {
+    await octokit.rest.repos.checkCollaborator({ owner, repo, username });
+    return true;
+  } catch (error) {
+    if ((error as { status?: number }).status === 404) return false;
+    throw error;
+  }
+}
+
+export async function addPullLabel(context: PullRequestContext, label: string): Promise<void> {
+  await context.octokit.rest.issues.addLabels({
+    owner: context.payload.repository.owner.login,
+    repo: context.payload.repository.name,
+    issue_number: context.payload.pull_request.number,
+    labels: [label]
+  });
+}
+
+export type CheckConclusion = "success" | "neutral" | "failure";
+
+export interface CheckRunOutput {
+  title: string;
+  summary: string;
+  annotations?: InlineReviewComment[];
+}
+
+function toCheckRunOutput(output: CheckRunOutput) {
+  return {
+    title: output.title,
+    summary: output.summary.slice(0, MAX_CHECK_SUMMARY_LENGTH),
+    annotations: output.annotations?.slice(0, MAX_CHECK_ANNOTATIONS).map((comment) => ({
+      path: comment.path,
+      start_line: comment.line,
+      end_line: comment.line,
+      annotation_level: "notice" as const,
+      title: "AI 리뷰",
+      message: comment.body
+    }))
+  };
+}
+
+// Check runs need the `checks: write` permission; without it the review still runs and only the check is missing.
+export async function createReviewCheckRun(
+  context: PullRequestContext,
+  headSha: string,
+  output: CheckRunOutput
+): Promise<number | null> {
+  try {
+    const response = await context.octokit.rest.checks.create({
+      owner: context.payload.repository.owner.login,
+      repo: context.payload.repository.name,
+      name: REVIEW_CHECK_NAME,
+      head_sha: headSha,
+      status: "in_progress",
+      started_at: new Date().toISOString(),
+      output: toCheckRunOutput(output)
+    });
+    return response.data.id;
+  } catch (error) {
+    console.error("Failed to create check run", {
+      owner: context.payload.repository.owner.login,
+      repo: context.payload.repository.name,
+      headSha,
+      message: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
+
+export async function updateReviewCheckRun(
+  context: PullRequestContext,
+  checkRunId: number,
+  output: CheckRunOutput,
+  conclusion?: CheckConclusion
+): Promise<void> {
+  try {
+    await context.octokit.rest.checks.update({
+      owner: context.payload.repository.owner.login,
+      repo: context.payload.repository.name,
+      check_run_id: checkRunId,
+      output: toCheckRunOutput(output),
+      ...(conclusion ? { status: "completed" as const, conclusion, completed_at: new Date().toISOString() } : {})
+    });
+  } catch (error) {
+    console.error("Failed to update check run", {
+      owner: context.payload.repository.owner.login,
+      repo: context.payload.repository.name,
+      checkRunId,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+export interface ReviewThread {
+  rootCommentId: number;
+  path: string;
+  line?: number;
+  messages: Array<{ author: string; body: string; fromBot: boolean }>;
+}
+
+// Returns the thread only when it was started by this app's inline review; other threads are left alone.
+export async function loadBotReviewThread(context: PullRequestContext, commentId: number): Promise<ReviewThread | null> {
+  const owner = context.payload.repository.owner.login;
+  const repo = context.payload.repository.name;
+  const pullNumber = context.payload.pull_request.number;
+
+  const comment = (await context.octokit.rest.pulls.getReviewComment({ owner, repo, comment_id: commentId })).data;
+  const rootId = comment.in_reply_to_id ?? comment.id;
+  const root =
+    rootId === comment.id
+      ? comment
+      : (await context.octokit.rest.pulls.getReviewComment({ owner, repo, comment_id: rootId })).data;
+  if (root.user?.type !== "Bot" || !root.pull_request_review_id) return null;
+
+  const review = await context.octokit.rest.pulls.getReview({
+    owner,
+    repo,
+    pull_number: pullNumber,
+    review_id: root.pull_request_review_id
+  });
+  if (!(review.data.body ?? "").includes(LINE_REVIEW_MARKER)) return null;
+
+  const comments = await context.octokit.paginate(context.octokit.rest.pulls.listReviewComments, {
+    owner,
+    repo,
+    pull_number: pullNumber,
+    per_page: 100
+  });
+  const messages = comments
+    .filter((item) => item.id === rootId || item.in_reply_to_id === rootId)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map((item) => ({
+      author: item.user?.login ?? "unknown",
+      body: item.body,
+      fromBot: item.user?.type === "Bot"
+    }));
+
+  return {
+    rootCommentId: rootId,
+    path: root.path,
+    line: root.line ?? root.original_line ?? undefined,
+    messages
+  };
+}
+
+export async function replyToReviewThread(context: PullRequestContext, rootCommentId: number, body: string): Promise<void> {
+  await context.octokit.rest.pulls.createReplyForReviewComment({
+    owner: context.payload.repository.owner.login,
+    repo: context.payload.repository.name,
+    pull_number: context.payload.pull_request.number,
+    comment_id: rootCommentId,
+    body
+  });
+}
+
+export async function loadAiReviewCommentBody(context: PullRequestContext): Promise<string | null> {
+  const comment = await findBotComment(
+    context.octokit,
+    context.payload.repository.owner.login,
+    context.payload.repository.name,
+    context.payload.pull_request.number,
+    REVIEW_COMMENT_MARKER
+  );
+  return comment?.body?.replace(REVIEW_COMMENT_MARKER, "").trim() ?? null;
+}
+
+export async function loadLastReviewedSha(context: PullRequestContext): Promise<string | null> {
+  const body = await loadAiReviewCommentBody(context);
+  return body?.match(REVIEWED_SHA_PATTERN)?.[1] ?? null;
+}
+
+// A review in which a problem failed keeps the previous marker, so the next push still reviews its lines.
+export async function selectReviewedSha(
+  context: PullRequestContext,
+  reviewedSha: string,
+  failed: boolean
+): Promise<string | undefined> {
+  return failed ? ((await loadLastReviewedSha(context)) ?? undefined) : reviewedSha;
+}
+
+export interface ReviewDelta {
+  baseSha: string;
+  headSha: string;
+  htmlUrl: string;
+  commitCount: number;
+  files: Array<{ path: string; additions: number; deletions: number; addedLines: number[] }>;
+}
+
+// "full" carries why the previous head could not be compared (force-push, rebase, API error) so the summary can say so.
+export type ReviewDeltaResult = { status: "incremental"; delta: ReviewDelta } | { status: "full"; reason: string };
+
+export async function loadReviewDelta(
+  context: PullRequestContext,
+  baseSha: string,
+  headSha: string
+): Promise<ReviewDeltaResult> {
+  const owner = context.payload.repository.owner.login;
+  const repo = context.payload.repository.name;
+  try {
+    const response = await context.octokit.rest.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${baseSha}...${headSha}`
+    });
+    if (response.data.status !== "ahead") {
+      const reason =
+        response.data.status === "diverged"
+          ? "force-push 또는 rebase로 마지막 리뷰 커밋이 현재 브랜치에 없습니다"
+          : `마지막 리뷰 커밋과 비교할 수 없습니다 (${response.data.status})`;
+      return { status: "full", reason };
+    }
+    return {
+      status: "incremental",
+      delta: {
+        baseSha,
+        headSha,
+        htmlUrl: response.data.html_url,
+        commitCount: response.data.ahead_by,
+        files: (response.data.files ?? []).map((file) => ({
+          path: file.filename,
+          additions: file.additions,
+          deletions: file.deletions,
+          addedLines: file.patch ? parseAddedLinesFromPatch(file.patch) : []
+        }))
+      }
+    };
+  } catch (error) {
+    console.error("Failed to compare commits since last review", {
+      owner,
+      repo,
+      baseSha,
+      headSha,
+      message: error instanceof Error ? error.message : String(error)
+    });
+    return { status: "full", reason: "마지막 리뷰 커밋과 비교하지 못했습니다" };
+  }
+}
+
+export async function listPullFilePaths(context: PullRequestContext): Promise<string[]> {
+  const files = await listPullFiles(
+    context.octokit,
+    context.payload.repository.owner.login,
+    context.payload.repository.name,
+    context.payload.pull_request.number
+  );
+  return files.filter((file) => file.status !== "removed").map((file) => file.filename);
+}
+
+type PullFile = Awaited<ReturnType<typeof listPullFiles>>[number];
+
+function selectReviewCodeFiles(files: PullFile[], isGenerated: GeneratedFileMatcher): PullFile[] {
+  const codeFiles = files
+    .filter((file) => file.status !== "removed")
+    .filter((file) => /\.(java|kt|py|cpp|cc|cxx|c|js|ts|go|rs)$/.test(file.filename));
+  const nonGeneratedCodeFiles = codeFiles.filter((file) => !isGenerated(file.filename));
+  return nonGeneratedCodeFiles.length > 0 ? nonGeneratedCodeFiles : codeFiles;
+}
+
+export async function loadRepositoryTextFile(
+  octokit: OctokitClient,
+  owner: string,
+  repo: string,
+  ref: string,
+  path: string
+): Promise<string | null> {
+  return getTextFileContent(octokit, owner, repo, ref, path);
+}
+
+export async function listChangedCodePaths(
+  context: PullRequestContext,
+  isGenerated: GeneratedFileMatcher = isDefaultGeneratedFile
+): Promise<string[]> {
+  const files = await listPullFiles(
+    context.octokit,
+    context.payload.repository.owner.login,
+    context.payload.repository.name,
+    context.payload.pull_request.number
+  );
+  return selectReviewCodeFiles(files, isGenerated).map((file) => file.filename);
+}
+
+export async function loadCodeFile(context: PullRequestContext, path: string): Promise<string | null> {
+  return getTextFileContent(
+    context.octokit,
+    context.payload.repository.owner.login,
+    context.payload.repository.name,
+    context.payload.pull_request.head.ref,
+    path
+  );
+}
+
 export async function loadChangedFilesForReview(
   context: PullRequestContext,
   maxFiles = 8,
-  maxCharsPerFile = 3500
+  maxCharsPerFile = 3500,
+  isGenerated: GeneratedFileMatcher = isDefaultGeneratedFile
 ): Promise<ChangedFileForReview[]> {
   const owner = context.payload.repository.owner.login;
   const repo = context.payload.repository.name;
@@ -418,20 +814,7 @@ export async function loadChangedFilesForReview(
   const ref = context.payload.pull_request.head.ref;
 
   const files = await listPullFiles(context.octokit, owner, repo, pullNumber);
-
-  const nonGeneratedCodeFiles = files
-    .filter((file) => file.status !== "removed")
-    .filter((file) => !isGeneratedProblemCodeFile(file.filename))
-    .filter((file) => /\.(java|kt|py|cpp|cc|cxx|c|js|ts|go|rs)$/.test(file.filename))
-    .slice(0, maxFiles);
-
-  const codeFiles =
-    nonGeneratedCodeFiles.length > 0
-        ? nonGeneratedCodeFiles
-        : files
-            .filter((file) => file.status !== "removed")
-            .filter((file) => /\.(java|kt|py|cpp|cc|cxx|c|js|ts|go|rs)$/.test(file.filename))
-            .slice(0, maxFiles);
+  const codeFiles = selectReviewCodeFiles(files, isGenerated).slice(0, maxFiles);
 
   const results: ChangedFileForReview[] = [];
   for (const file of codeFiles) {
@@ -449,6 +832,23 @@ export async function loadChangedFilesForReview(
   return results;
 }
 
+export async function loadMetadataHints(
+  octokit: OctokitClient,
+  owner: string,
+  repo: string,
+  pull: { number: number; body?: string | null; head: { ref: string } }
+): Promise<MetadataHints> {
+  const files = await listPullFiles(octokit, owner, repo, pull.number);
+  const commitMessages = await listPullCommitMessages(octokit, owner, repo, pull.number);
+
+  return {
+    body: pull.body,
+    branch: pull.head.ref,
+    filePaths: files.filter((file) => file.status !== "removed").map((file) => file.filename),
+    commitMessages
+  };
+}
+
 export function buildChangedCodePrompt(files: ChangedFileForReview[]): string {
   if (files.length === 0) return "코드 정보를 불러오지 못했습니다.";
 
@@ -474,7 +874,8 @@ function hasAnyExtension(path: string, extensions: string[]): boolean {
 
 export async function loadPrimaryCode(
   context: PullRequestContext,
-  preferredExtensions: string[] = [".java"]
+  preferredExtensions: string[] = [".java"],
+  isGenerated: GeneratedFileMatcher = isDefaultGeneratedFile
 ): Promise<string | null> {
   const owner = context.payload.repository.owner.login;
   const repo = context.payload.repository.name;
@@ -491,7 +892,7 @@ export async function loadPrimaryCode(
     (file) =>
       file.status !== "removed" &&
       hasAnyExtension(file.filename, preferred) &&
-      !isGeneratedProblemCodeFile(file.filename)
+      !isGenerated(file.filename)
   );
   const preferredGeneratedFile = files.find(
     (file) => file.status !== "removed" && hasAnyExtension(file.filename, preferred)
@@ -501,7 +902,7 @@ export async function loadPrimaryCode(
     (file) =>
       file.status !== "removed" &&
       hasAnyExtension(file.filename, codeExtensions) &&
-      !isGeneratedProblemCodeFile(file.filename)
+      !isGenerated(file.filename)
   );
   const fallbackGeneratedFile = files.find(
     (file) => file.status !== "removed" && hasAnyExtension(file.filename, codeExtensions)
@@ -517,33 +918,47 @@ export async function commitFilesToPrBranch(
   context: PullRequestContext,
   message: string,
   files: Array<{ path: string; content: string }>
-): Promise<boolean> {
-  const owner = context.payload.repository.owner.login;
-  const repo = context.payload.repository.name;
-  const branch = context.payload.pull_request.head.ref;
+): Promise<string | null> {
+  return commitFilesToBranch(
+    context.octokit,
+    context.payload.repository.owner.login,
+    context.payload.repository.name,
+    context.payload.pull_request.head.ref,
+    message,
+    files
+  );
+}
 
+export async function commitFilesToBranch(
+  octokit: OctokitClient,
+  owner: string,
+  repo: string,
+  branch: string,
+  message: string,
+  files: Array<{ path: string; content: string }>
+): Promise<string | null> {
   const unchangedResults = await Promise.all(
     files.map(async (file) => {
-      const existing = await getTextFileContent(context.octokit, owner, repo, branch, file.path);
+      const existing = await getTextFileContent(octokit, owner, repo, branch, file.path);
       return existing === file.content;
     })
   );
-  if (unchangedResults.every(Boolean)) return false;
+  if (unchangedResults.every(Boolean)) return null;
 
-  const ref = await context.octokit.rest.git.getRef({
+  const ref = await octokit.rest.git.getRef({
     owner,
     repo,
     ref: `heads/${branch}`
   });
 
   const baseCommitSha = ref.data.object.sha;
-  const baseCommit = await context.octokit.rest.git.getCommit({
+  const baseCommit = await octokit.rest.git.getCommit({
     owner,
     repo,
     commit_sha: baseCommitSha
   });
 
-  const tree = await context.octokit.rest.git.createTree({
+  const tree = await octokit.rest.git.createTree({
     owner,
     repo,
     base_tree: baseCommit.data.tree.sha,
@@ -555,7 +970,7 @@ export async function commitFilesToPrBranch(
     }))
   });
 
-  const commit = await context.octokit.rest.git.createCommit({
+  const commit = await octokit.rest.git.createCommit({
     owner,
     repo,
     message,
@@ -563,7 +978,7 @@ export async function commitFilesToPrBranch(
     parents: [baseCommitSha]
   });
 
-  await context.octokit.rest.git.updateRef({
+  await octokit.rest.git.updateRef({
     owner,
     repo,
     ref: `heads/${branch}`,
@@ -571,14 +986,66 @@ export async function commitFilesToPrBranch(
     force: false
   });
 
-  return true;
+  return commit.data.sha;
+}
+
+// 409/422 from the git data API: the branch moved between reading it and updating the ref.
+function isBranchConflict(error: unknown): boolean {
+  const status = (error as { status?: number }).status;
+  return status === 409 || status === 422;
+}
+
+// Two jobs may update the same branch at once (the merge job and the default-branch push job), so `update`
+// re-reads the files it changes and is run again from scratch when the branch moved underneath it.
+export async function retryOnBranchConflict<T>(update: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await update();
+    } catch (error) {
+      if (attempt >= BRANCH_UPDATE_ATTEMPTS || !isBranchConflict(error)) throw error;
+      console.warn("Branch moved during update, retrying", { attempt });
+    }
+  }
+}
+
+export async function listRepositoryFiles(
+  octokit: OctokitClient,
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<Array<{ path: string; sha: string }>> {
+  const tree = await octokit.rest.git.getTree({ owner, repo, tree_sha: ref, recursive: "true" });
+  if (tree.data.truncated) {
+    console.error("Repository tree listing was truncated", { owner, repo, ref });
+  }
+  return tree.data.tree.flatMap((entry) =>
+    entry.type === "blob" && entry.path && entry.sha ? [{ path: entry.path, sha: entry.sha }] : []
+  );
+}
+
+export async function getLastCommitForPath(
+  octokit: OctokitClient,
+  owner: string,
+  repo: string,
+  ref: string,
+  path: string
+): Promise<{ author?: string; date?: string } | null> {
+  const commits = await octokit.rest.repos.listCommits({ owner, repo, sha: ref, path, per_page: 1 });
+  const [commit] = commits.data;
+  if (!commit) return null;
+  return {
+    author: commit.author?.login ?? commit.commit.author?.name ?? undefined,
+    date: commit.commit.author?.date ?? commit.commit.committer?.date ?? undefined
+  };
 }
 
 export async function createInlineReview(
   context: PullRequestContext,
   summaryBody: string,
   comments: InlineReviewComment[],
-  changedFiles: ChangedFileForReview[]
+  changedFiles: ChangedFileForReview[],
+  maxComments = 8,
+  onlyLines?: Map<string, number[]>
 ): Promise<InlineReviewResult> {
   const owner = context.payload.repository.owner.login;
   const repo = context.payload.repository.name;
@@ -606,16 +1073,18 @@ export async function createInlineReview(
     const addedLines = addedLinesByPath.get(resolvedPath) || [];
     const resolvedLine = findClosestReviewLine(item.line, rightLines, addedLines);
     if (!resolvedLine) continue;
+    if (onlyLines && !onlyLines.get(resolvedPath)?.includes(resolvedLine)) continue;
 
     const key = `${resolvedPath}:${resolvedLine}:${body}`;
     resolved.set(key, {
       path: resolvedPath,
       line: resolvedLine,
-      body
+      body,
+      ...resolveSuggestion(item, resolvedLine, rightLines)
     });
   }
 
-  const validComments = [...resolved.values()].slice(0, 8);
+  const validComments = [...resolved.values()].slice(0, maxComments);
 
   if (validComments.length === 0) {
     return {
@@ -651,8 +1120,9 @@ export async function createInlineReview(
     comments: validComments.map((item) => ({
       path: item.path,
       line: item.line,
-      side: "RIGHT",
-      body: item.body
+      side: "RIGHT" as const,
+      ...(item.startLine ? { start_line: item.startLine, start_side: "RIGHT" as const } : {}),
+      body: formatInlineCommentBody(item)
     }))
   });
 
@@ -1,4 +1,5 @@
 import { Probot } from "probot";
+import { parseSlashCommand } from "./commands.js";
 import { enqueueWorkerJob } from "./queue.js";
 
 export default (app: Probot): void => {
@@ -18,6 +19,7 @@ export default (app: Probot): void => {
         owner,
         repo,
         branch,
+        defaultBranch: context.payload.repository.default_branch,
         senderType: context.payload.sender?.type
       });
     } catch (error) {
@@ -26,23 +28,96 @@ export default (app: Probot): void => {
     }
   });
 
-  app.on(["pull_request.opened", "pull_request.edited", "pull_request.synchronize"], async (context) => {
-    if (context.payload.sender?.type === "Bot" && context.payload.action !== "opened") return;
+  app.on(
+    ["pull_request.opened", "pull_request.edited", "pull_request.synchronize", "pull_request.ready_for_review"],
+    async (context) => {
+      if (context.payload.sender?.type === "Bot" && context.payload.action !== "opened") return;
+      if (!context.payload.installation?.id) return;
+
+      try {
+        await enqueueWorkerJob({
+          v: 1,
+          type: "pull_request",
+          action: context.payload.action,
+          installationId: context.payload.installation.id,
+          owner: context.payload.repository.owner.login,
+          repo: context.payload.repository.name,
+          pullNumber: context.payload.pull_request.number,
+          senderType: context.payload.sender?.type
+        });
+      } catch (error) {
+        context.log.error(error, "Failed to enqueue pull_request worker job");
+        throw error;
+      }
+    }
+  );
+
+  app.on("pull_request.closed", async (context) => {
+    if (!context.payload.pull_request.merged) return;
     if (!context.payload.installation?.id) return;
 
     try {
       await enqueueWorkerJob({
         v: 1,
-        type: "pull_request",
-        action: context.payload.action,
+        type: "pull_request_merged",
+        installationId: context.payload.installation.id,
+        owner: context.payload.repository.owner.login,
+        repo: context.payload.repository.name,
+        pullNumber: context.payload.pull_request.number,
+        senderType: context.payload.sender?.type
+      });
+    } catch (error) {
+      context.log.error(error, "Failed to enqueue pull_request_merged worker job");
+      throw error;
+    }
+  });
+
+  app.on("issue_comment.created", async (context) => {
+    if (!context.payload.issue.pull_request) return;
+    if (context.payload.sender?.type === "Bot") return;
+    if (!context.payload.installation?.id || !context.payload.comment.user) return;
+
+    const command = parseSlashCommand(context.payload.comment.body);
+    if (!command) return;
+
+    try {
+      await enqueueWorkerJob({
+        v: 1,
+        type: "command",
+        installationId: context.payload.installation.id,
+        owner: context.payload.repository.owner.login,
+        repo: context.payload.repository.name,
+        pullNumber: context.payload.issue.number,
+        commentId: context.payload.comment.id,
+        commenter: context.payload.comment.user.login,
+        command,
+        senderType: context.payload.sender?.type
+      });
+    } catch (error) {
+      context.log.error(error, "Failed to enqueue command worker job");
+      throw error;
+    }
+  });
+
+  app.on("pull_request_review_comment.created", async (context) => {
+    if (context.payload.sender?.type === "Bot") return;
+    if (!context.payload.comment.in_reply_to_id) return;
+    if (!context.payload.installation?.id || !context.payload.comment.user) return;
+
+    try {
+      await enqueueWorkerJob({
+        v: 1,
+        type: "review_reply",
         installationId: context.payload.installation.id,
         owner: context.payload.repository.owner.login,
         repo: context.payload.repository.name,
         pullNumber: context.payload.pull_request.number,
+        commentId: context.payload.comment.id,
+        commenter: context.payload.comment.user.login,
         senderType: context.payload.sender?.type
       });
     } catch (error) {
-      context.log.error(error, "Failed to enqueue pull_request worker job");
+      context.log.error(error, "Failed to enqueue review_reply worker job");
       throw error;
     }
   });
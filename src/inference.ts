@@ -0,0 +1,198 @@
+import { matchLanguageProfile, matchLanguageProfileByPath } from "./languages.js";
+import { normalizeProblemNumber, parseSite } from "./parser.js";
+import { extractProblemIdFromUrl, getSiteRule, SUPPORTED_SITES } from "./sites.js";
+import type { PrProblemMetadata, SupportedSite } from "./types.js";
+
+export type InferenceSource = "body" | "files" | "branch" | "commits";
+
+export type InferableField = "site" | "problemNumber" | "problemUrl" | "language";
+
+export interface InferredField {
+  field: InferableField;
+  value: string;
+  source: InferenceSource;
+}
+
+export interface MetadataHints {
+  body?: string | null;
+  branch?: string;
+  filePaths: string[];
+  commitMessages: string[];
+}
+
+export interface MetadataInference {
+  metadata: PrProblemMetadata;
+  inferred: InferredField[];
+}
+
+type Candidate = Partial<Pick<PrProblemMetadata, InferableField>>;
+
+const URL_RE = /https?:\/\/[^\s<>()"'`]+/g;
+
+function candidateFromUrl(rawUrl: string): Candidate | undefined {
+  const url = rawUrl.replace(/[.,;:!?\]]+$/, "");
+  // Untouched template lines such as `https://www.acmicpc.net/problem/{문제번호}` are not real links.
+  if (/[{}]/.test(url)) return undefined;
+
+  for (const site of SUPPORTED_SITES) {
+    const problemId = extractProblemIdFromUrl(site, url);
+    if (!problemId) continue;
+    const problemNumber = getSiteRule(site).urlCarriesProblemNumber ? normalizeProblemNumber(problemId, site, url) : undefined;
+    return { site, problemNumber, problemUrl: url };
+  }
+  return undefined;
+}
+
+function candidateFromText(text: string): Candidate | undefined {
+  for (const match of text.matchAll(URL_RE)) {
+    const candidate = candidateFromUrl(match[0]);
+    if (candidate) return candidate;
+  }
+  return undefined;
+}
+
+function pickProblemNumber(site: SupportedSite, raw: string): string | undefined {
+  const rule = getSiteRule(site);
+  const candidates =
+    site === "LEETCODE" ? [raw.toLowerCase()] : [raw.match(/^\d+[A-Za-z]?\d?/)?.[0], raw.match(/^\d+/)?.[0]];
+
+  for (const candidate of candidates) {
+    const normalized = candidate ? normalizeProblemNumber(candidate, site) : undefined;
+    if (normalized && rule.problemNumberPattern.test(normalized)) return normalized;
+  }
+  return undefined;
+}
+
+// Accepts `boj/1000`-style token pairs as well as single tokens such as `boj-1000` or `BOJ_1000`.
+function candidateFromTokens(tokens: string[]): Candidate | undefined {
+  for (let i = 0; i < tokens.length; i += 1) {
+    const site = parseSite(tokens[i]);
+    if (site) {
+      const problemNumber = tokens[i + 1] ? pickProblemNumber(site, tokens[i + 1]) : undefined;
+      if (problemNumber) return { site, problemNumber };
+      continue;
+    }
+
+    const joined = tokens[i].match(/^([A-Za-z가-힣]+)[-_]?(.+)$/);
+    const joinedSite = joined ? parseSite(joined[1]) : undefined;
+    if (!joined || !joinedSite) continue;
+    const problemNumber = pickProblemNumber(joinedSite, joined[2]);
+    if (problemNumber) return { site: joinedSite, problemNumber };
+  }
+  return undefined;
+}
+
+// Handles both the folders this app commits (`백준/1000.A+B/...`) and BaekjoonHub folders (`백준/Bronze/1000. A+B/...`).
+function candidateFromPath(path: string): Candidate | undefined {
+  const segments = path.split("/");
+  const directories = segments.slice(0, -1);
+  const language = matchLanguageProfileByPath(path)?.name;
+
+  for (let i = 0; i < directories.length; i += 1) {
+    const site = parseSite(directories[i]);
+    if (!site) continue;
+
+    for (const directory of directories.slice(i + 1)) {
+      // LeetCode folders start with the slug; a bare number there is a displayed number the crawler cannot use.
+      const prefix =
+        site === "LEETCODE"
+          ? directory.match(/^([a-z0-9]+(?:-[a-z0-9]+)*)\./)?.[1]?.replace(/^\d+$/, "")
+          : directory.match(/^(\d+[A-Za-z]?\d?)\./)?.[1];
+      const problemNumber = prefix ? pickProblemNumber(site, prefix) : undefined;
+      if (problemNumber) return { site, problemNumber, language };
+    }
+    return { site, language };
+  }
+  return language ? { language } : undefined;
+}
+
+function candidatesFromFiles(filePaths: string[]): Candidate[] {
+  const candidates = filePaths.map(candidateFromPath).filter((v): v is Candidate => Boolean(v));
+  // Paths that name a problem come first so a stray helper file cannot decide the site alone.
+  return [...candidates.filter((c) => c.problemNumber), ...candidates.filter((c) => !c.problemNumber)];
+}
+
+export function inferMetadata(metadata: PrProblemMetadata, hints: MetadataHints): MetadataInference {
+  const result: PrProblemMetadata = { ...metadata };
+  const inferred: InferredField[] = [];
+
+  const sources: Array<[InferenceSource, Candidate[]]> = [
+    ["body", [candidateFromText(hints.body ?? "")].filter((v): v is Candidate => Boolean(v))],
+    ["files", candidatesFromFiles(hints.filePaths)],
+    ["branch", [candidateFromTokens((hints.branch ?? "").split("/"))].filter((v): v is Candidate => Boolean(v))],
+    [
+      "commits",
+      hints.commitMessages
+        .map((message) => {
+          const firstLine = message.split("\n")[0] ?? "";
+          return candidateFromText(message) ?? candidateFromTokens(firstLine.split(/[\s[\]()#:,]+/).filter(Boolean));
+        })
+        .filter((v): v is Candidate => Boolean(v))
+    ]
+  ];
+
+  const fill = (field: InferableField, value: string | undefined, source: InferenceSource): void => {
+    if (!value || result[field]) return;
+    if (field === "site") result.site = value as SupportedSite;
+    else result[field] = value;
+    inferred.push({ field, value, source });
+  };
+
+  for (const [source, candidates] of sources) {
+    for (const candidate of candidates) {
+      fill("language", candidate.language, source);
+      if (!candidate.site) continue;
+
+      // An explicit but unsupported Site value is left for the validator to report.
+      if (!result.site && !result.siteLabel) fill("site", candidate.site, source);
+      if (candidate.site !== result.site) continue;
+      fill("problemNumber", candidate.problemNumber, source);
+      if (!candidate.problemNumber || candidate.problemNumber === result.problemNumber) {
+        fill("problemUrl", candidate.problemUrl, source);
+      }
+    }
+  }
+
+  return { metadata: result, inferred };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function pathMentionsProblem(path: string, problemNumber: string): boolean {
+  return new RegExp(`(^|[^0-9A-Za-z])${escapeRegExp(problemNumber)}([^0-9A-Za-z]|$)`, "i").test(path);
+}
+
+// Pairs each problem with the changed source file it most likely belongs to; a file is used by one problem at most.
+export function matchSourceFiles(problems: PrProblemMetadata[], filePaths: string[]): Array<string | undefined> {
+  const remaining = [...filePaths];
+  const take = (path: string | undefined): string | undefined => {
+    if (path) remaining.splice(remaining.indexOf(path), 1);
+    return path;
+  };
+
+  const matched = problems.map((problem) => {
+    const explicit = problem.sourcePath?.replace(/^\.?\//, "");
+    if (!explicit) return undefined;
+    return take(remaining.find((path) => path === explicit || path.endsWith(`/${explicit}`)));
+  });
+
+  const matchers: Array<(problem: PrProblemMetadata, path: string) => boolean> = [
+    (problem, path) => {
+      const candidate = candidateFromPath(path);
+      return Boolean(candidate?.problemNumber && candidate.site === problem.site && candidate.problemNumber === problem.problemNumber);
+    },
+    (problem, path) => Boolean(problem.problemNumber && pathMentionsProblem(path, problem.problemNumber)),
+    (problem, path) => matchLanguageProfileByPath(path)?.name === matchLanguageProfile(problem.language)?.name,
+    () => true
+  ];
+
+  for (const matcher of matchers) {
+    problems.forEach((problem, index) => {
+      if (matched[index]) return;
+      matched[index] = take(remaining.find((path) => matcher(problem, path)));
+    });
+  }
+  return matched;
+}
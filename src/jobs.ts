@@ -1,4 +1,6 @@
-export type WorkerJobType = "push" | "pull_request";
+import type { SlashCommand } from "./commands.js";
+
+export type WorkerJobType = "push" | "pull_request" | "pull_request_merged" | "command" | "review_reply";
 
 interface BaseWorkerJob {
   v: 1;
@@ -12,12 +14,38 @@ interface BaseWorkerJob {
 export interface PushWorkerJob extends BaseWorkerJob {
   type: "push";
   branch: string;
+  defaultBranch?: string;
 }
 
 export interface PullRequestWorkerJob extends BaseWorkerJob {
   type: "pull_request";
-  action: "opened" | "edited" | "synchronize";
+  action: "opened" | "edited" | "synchronize" | "ready_for_review";
+  pullNumber: number;
+}
+
+export interface PullRequestMergedWorkerJob extends BaseWorkerJob {
+  type: "pull_request_merged";
+  pullNumber: number;
+}
+
+export interface CommandWorkerJob extends BaseWorkerJob {
+  type: "command";
+  pullNumber: number;
+  commentId: number;
+  commenter: string;
+  command: SlashCommand;
+}
+
+export interface ReviewReplyWorkerJob extends BaseWorkerJob {
+  type: "review_reply";
   pullNumber: number;
+  commentId: number;
+  commenter: string;
 }
 
-export type WorkerJob = PushWorkerJob | PullRequestWorkerJob;
+export type WorkerJob =
+  | PushWorkerJob
+  | PullRequestWorkerJob
+  | PullRequestMergedWorkerJob
+  | CommandWorkerJob
+  | ReviewReplyWorkerJob;
@@ -0,0 +1,137 @@
+import { InvokeCommand, LambdaClient } from "@aws-sdk/client-lambda";
+import { optionalEnv } from "./env.js";
+import type { LanguageProfile, SupportedReviewLanguage } from "./languages.js";
+import type { ProblemSample } from "./types.js";
+
+const DEFAULT_INVOKE_TIMEOUT_MS = 60000;
+
+const lambda = new LambdaClient({});
+
+export type SampleVerdict = "pass" | "fail" | "tle" | "re";
+
+export interface SampleRunResult {
+  index: number;
+  verdict: SampleVerdict;
+  durationMs: number;
+  input: string;
+  expected: string;
+  actual: string;
+  stderr: string;
+}
+
+export type JudgeResult =
+  | { status: "unavailable"; reason: string }
+  | { status: "compile_error"; message: string }
+  | { status: "judged"; timeLimitMs: number; samples: SampleRunResult[] };
+
+// Sent to the judge sandbox function (see judgerunner.ts), which compiles and runs the code in isolation.
+export interface JudgeRequest {
+  language: SupportedReviewLanguage;
+  code: string;
+  samples: Array<{ input: string; output: string }>;
+}
+
+function readInvokeTimeout(): number {
+  const value = Number(optionalEnv("JUDGE_INVOKE_TIMEOUT_MS") ?? DEFAULT_INVOKE_TIMEOUT_MS);
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : DEFAULT_INVOKE_TIMEOUT_MS;
+}
+
+// Submitted code never runs in this process: without a configured sandbox the judge is simply unavailable.
+// `timeoutMs` lets the caller shorten the invocation to fit the time left in the worker.
+export async function judgeSubmission(
+  profile: LanguageProfile,
+  code: string,
+  samples: ProblemSample[],
+  timeoutMs = readInvokeTimeout()
+): Promise<JudgeResult> {
+  if (samples.length === 0) return { status: "unavailable", reason: "예제 입출력이 없습니다." };
+  const functionName = optionalEnv("JUDGE_FUNCTION_NAME");
+  if (!functionName) return { status: "unavailable", reason: "채점 샌드박스가 설정되지 않았습니다." };
+
+  const request: JudgeRequest = {
+    language: profile.name,
+    code,
+    samples: samples.map(({ input, output }) => ({ input, output }))
+  };
+  try {
+    const response = await lambda.send(
+      new InvokeCommand({ FunctionName: functionName, Payload: Buffer.from(JSON.stringify(request)) }),
+      { abortSignal: AbortSignal.timeout(Math.min(timeoutMs, readInvokeTimeout())) }
+    );
+    const payload = response.Payload ? Buffer.from(response.Payload).toString("utf-8") : "";
+    if (response.FunctionError || !payload) {
+      console.error("Judge sandbox returned an error", { functionName, error: response.FunctionError, payload });
+      return { status: "unavailable", reason: "채점 샌드박스 실행에 실패했습니다." };
+    }
+    return JSON.parse(payload) as JudgeResult;
+  } catch (error) {
+    console.error("Failed to invoke judge sandbox", {
+      functionName,
+      message: error instanceof Error ? error.message : String(error)
+    });
+    return { status: "unavailable", reason: "채점 샌드박스 실행에 실패했습니다." };
+  }
+}
+
+export function isAcceptedJudgeResult(result: JudgeResult): boolean {
+  return result.status === "judged" && result.samples.every((sample) => sample.verdict === "pass");
+}
+
+export function isJudgeConfigured(): boolean {
+  return Boolean(optionalEnv("JUDGE_FUNCTION_NAME"));
+}
+
+const VERDICT_LABELS: Record<SampleVerdict, string> = {
+  pass: "✅ 통과",
+  fail: "❌ 오답",
+  tle: "⏱️ 시간 초과",
+  re: "💥 런타임 에러"
+};
+
+function truncate(text: string, maxLength = 800): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}\n...(생략)` : text;
+}
+
+function fence(text: string): string {
+  return `\`\`\`\n${truncate(text.replace(/\s+$/, ""))}\n\`\`\``;
+}
+
+export function formatJudgeReport(result: JudgeResult): string {
+  if (result.status === "unavailable") return `## 예제 실행 결과\n\n_예제를 실행하지 못했습니다: ${result.reason}_`;
+  if (result.status === "compile_error") return `## 예제 실행 결과\n\n❌ 컴파일 에러\n\n${fence(result.message)}`;
+
+  const passed = result.samples.filter((sample) => sample.verdict === "pass").length;
+  const rows = result.samples.map(
+    (sample) => `| ${sample.index} | ${VERDICT_LABELS[sample.verdict]} | ${sample.durationMs}ms |`
+  );
+  const failures = result.samples
+    .filter((sample) => sample.verdict !== "pass")
+    .map((sample) => {
+      const details = [`입력:\n${fence(sample.input)}`, `기대 출력:\n${fence(sample.expected)}`];
+      if (sample.verdict === "fail") details.push(`실제 출력:\n${fence(sample.actual)}`);
+      if (sample.stderr) details.push(`stderr:\n${fence(sample.stderr)}`);
+      return `<details>\n<summary>예제 ${sample.index} ${VERDICT_LABELS[sample.verdict]}</summary>\n\n${details.join("\n\n")}\n\n</details>`;
+    });
+
+  return [
+    `## 예제 실행 결과 (${passed}/${result.samples.length} 통과, 제한 ${result.timeLimitMs}ms)`,
+    "",
+    "| 예제 | 결과 | 시간 |",
+    "| --- | --- | --- |",
+    ...rows,
+    ...(failures.length > 0 ? ["", ...failures] : [])
+  ].join("\n");
+}
+
+export function summarizeJudgeForPrompt(result: JudgeResult): string {
+  if (result.status === "unavailable") return `실행하지 못함 (${result.reason})`;
+  if (result.status === "compile_error") return `컴파일 에러:\n${truncate(result.message, 1500)}`;
+  return result.samples
+    .map((sample) => {
+      const line = `예제 ${sample.index}: ${sample.verdict.toUpperCase()} (${sample.durationMs}ms)`;
+      if (sample.verdict === "fail") return `${line}\n실제 출력:\n${truncate(sample.actual, 400)}`;
+      if (sample.verdict === "re" && sample.stderr) return `${line}\nstderr:\n${truncate(sample.stderr, 400)}`;
+      return line;
+    })
+    .join("\n");
+}
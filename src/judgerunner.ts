@@ -0,0 +1,241 @@
+import { spawn } from "node:child_process";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { optionalEnv } from "./env.js";
+import type { JudgeRequest, JudgeResult, SampleRunResult, SampleVerdict } from "./judge.js";
+import { matchLanguageProfile } from "./languages.js";
+
+// This module executes untrusted code. It is only meant to run inside the judge sandbox function
+// (no network, no secrets, see template.yaml), never inside the webhook or worker process.
+
+const DEFAULT_TIME_LIMIT_MS = 2000;
+const DEFAULT_MEMORY_MB = 256;
+const DEFAULT_COMPILE_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_PROCESSES = 64;
+const COMPILE_MEMORY_MB = 1024;
+const MAX_FILE_SIZE_KB = 64 * 1024;
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+const MAX_CODE_LENGTH = 200 * 1024;
+const MAX_SAMPLES = 20;
+const MISSING_COMMAND_EXIT_CODE = 127;
+
+interface JudgeLimits {
+  timeLimitMs: number;
+  memoryMb: number;
+  compileTimeoutMs: number;
+  maxProcesses: number;
+}
+
+interface ProcessLimits {
+  timeoutMs: number;
+  addressSpaceMb: number;
+  maxProcesses: number;
+}
+
+interface ProcessResult {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  outputExceeded: boolean;
+  durationMs: number;
+  missingCommand: boolean;
+}
+
+function readLimit(name: string, fallback: number): number {
+  const value = Number(optionalEnv(name) ?? fallback);
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback;
+}
+
+function resolveLimits(): JudgeLimits {
+  return {
+    timeLimitMs: readLimit("JUDGE_TIME_LIMIT_MS", DEFAULT_TIME_LIMIT_MS),
+    memoryMb: readLimit("JUDGE_MEMORY_MB", DEFAULT_MEMORY_MB),
+    compileTimeoutMs: readLimit("JUDGE_COMPILE_TIMEOUT_MS", DEFAULT_COMPILE_TIMEOUT_MS),
+    maxProcesses: readLimit("JUDGE_MAX_PROCESSES", DEFAULT_MAX_PROCESSES)
+  };
+}
+
+function runProcess(command: string[], cwd: string, limits: ProcessLimits, input = ""): Promise<ProcessResult> {
+  // Every step (compile included) runs under address-space, CPU, process-count and file-size limits.
+  // `exec` keeps the limited program as the group leader we time out and kill.
+  const ulimits = [
+    `ulimit -v ${limits.addressSpaceMb * 1024}`,
+    `ulimit -t ${Math.ceil(limits.timeoutMs / 1000) + 1}`,
+    `ulimit -u ${limits.maxProcesses}`,
+    `ulimit -f ${MAX_FILE_SIZE_KB}`
+  ].join(" && ");
+
+  return new Promise((resolve) => {
+    const startedAt = Date.now();
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let outputBytes = 0;
+    let timedOut = false;
+    let outputExceeded = false;
+
+    const child = spawn("/bin/bash", ["-c", `${ulimits} && exec "$@"`, "bash", ...command], {
+      cwd,
+      env: { PATH: process.env.PATH ?? "", HOME: cwd, LANG: "C.UTF-8", PYTHONDONTWRITEBYTECODE: "1", MALLOC_ARENA_MAX: "2" },
+      stdio: ["pipe", "pipe", "pipe"],
+      // Its own process group, so forked grandchildren are killed together with it.
+      detached: true
+    });
+    const killGroup = () => {
+      if (!child.pid) return;
+      try {
+        process.kill(-child.pid, "SIGKILL");
+      } catch {
+        // The group is already gone.
+      }
+    };
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup();
+    }, limits.timeoutMs);
+
+    const collect = (chunks: Buffer[]) => (chunk: Buffer) => {
+      outputBytes += chunk.length;
+      if (outputBytes > MAX_OUTPUT_BYTES) {
+        outputExceeded = true;
+        killGroup();
+        return;
+      }
+      chunks.push(chunk);
+    };
+    child.stdout.on("data", collect(stdout));
+    child.stderr.on("data", collect(stderr));
+    // The program may exit without reading all of stdin.
+    child.stdin.on("error", () => undefined);
+    child.stdin.end(input);
+
+    const finish = (result: Partial<ProcessResult>) => {
+      clearTimeout(timer);
+      killGroup();
+      resolve({
+        exitCode: null,
+        signal: null,
+        stdout: Buffer.concat(stdout).toString("utf-8"),
+        stderr: Buffer.concat(stderr).toString("utf-8"),
+        timedOut,
+        outputExceeded,
+        durationMs: Date.now() - startedAt,
+        missingCommand: false,
+        ...result
+      });
+    };
+    child.on("error", (error: NodeJS.ErrnoException) => finish({ missingCommand: error.code === "ENOENT" }));
+    child.on("close", (exitCode, signal) =>
+      finish({
+        exitCode,
+        signal,
+        missingCommand: exitCode === MISSING_COMMAND_EXIT_CODE && /not found/i.test(Buffer.concat(stderr).toString("utf-8"))
+      })
+    );
+  });
+}
+
+function fillCommand(command: string[], values: Record<string, string>): string[] {
+  return command.map((part) => part.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match));
+}
+
+function toTokens(text: string): string[] {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/) : [];
+}
+
+// Whitespace-tolerant: line breaks, repeated spaces and trailing blanks do not matter, only the token sequence.
+export function isSameOutput(expected: string, actual: string): boolean {
+  const expectedTokens = toTokens(expected);
+  const actualTokens = toTokens(actual);
+  return (
+    expectedTokens.length === actualTokens.length && expectedTokens.every((token, index) => token === actualTokens[index])
+  );
+}
+
+function toVerdict(result: ProcessResult, expected: string): SampleVerdict {
+  if (result.timedOut || result.signal === "SIGXCPU") return "tle";
+  if (result.outputExceeded || result.exitCode !== 0 || result.signal) return "re";
+  return isSameOutput(expected, result.stdout) ? "pass" : "fail";
+}
+
+function validateRequest(request: JudgeRequest): string | undefined {
+  if (!request || typeof request.code !== "string" || !Array.isArray(request.samples)) return "잘못된 채점 요청입니다.";
+  if (request.code.length > MAX_CODE_LENGTH) return "코드가 너무 깁니다.";
+  if (request.samples.length === 0) return "예제 입출력이 없습니다.";
+  if (request.samples.length > MAX_SAMPLES) return "예제가 너무 많습니다.";
+  const invalidSample = request.samples.some(
+    (sample) =>
+      typeof sample?.input !== "string" ||
+      typeof sample.output !== "string" ||
+      sample.input.length > MAX_OUTPUT_BYTES ||
+      sample.output.length > MAX_OUTPUT_BYTES
+  );
+  return invalidSample ? "잘못된 예제 입출력입니다." : undefined;
+}
+
+export async function runJudge(request: JudgeRequest): Promise<JudgeResult> {
+  const invalid = validateRequest(request);
+  if (invalid) return { status: "unavailable", reason: invalid };
+  const profile = matchLanguageProfile(request.language);
+  if (!profile) return { status: "unavailable", reason: `지원하지 않는 언어입니다: ${request.language}` };
+
+  const limits = resolveLimits();
+  const { judge } = profile;
+  const dir = await mkdtemp(join(tmpdir(), "ct-review-judge-"));
+  try {
+    const fileName = judge.sourceFileName(request.code);
+    const src = join(dir, fileName);
+    await writeFile(src, request.code, "utf-8");
+    const values = { dir, src, main: fileName.replace(/\.[^.]+$/, ""), memoryMb: String(limits.memoryMb) };
+
+    if (judge.compile) {
+      const compiled = await runProcess(fillCommand(judge.compile, values), dir, {
+        timeoutMs: limits.compileTimeoutMs,
+        addressSpaceMb: COMPILE_MEMORY_MB + judge.addressSpaceOverheadMb,
+        maxProcesses: limits.maxProcesses
+      });
+      if (compiled.missingCommand) {
+        return { status: "unavailable", reason: `채점 환경에 \`${judge.compile[0]}\`가 없습니다.` };
+      }
+      if (compiled.timedOut) return { status: "compile_error", message: "컴파일 시간이 초과되었습니다." };
+      if (compiled.exitCode !== 0) {
+        return { status: "compile_error", message: (compiled.stderr || compiled.stdout).replaceAll(dir, ".").trim() };
+      }
+    }
+
+    const timeLimitMs = limits.timeLimitMs * judge.timeMultiplier;
+    const results: SampleRunResult[] = [];
+    for (const [index, sample] of request.samples.entries()) {
+      const result = await runProcess(
+        fillCommand(judge.run, values),
+        dir,
+        {
+          timeoutMs: timeLimitMs,
+          addressSpaceMb: limits.memoryMb + judge.addressSpaceOverheadMb,
+          maxProcesses: limits.maxProcesses
+        },
+        sample.input.endsWith("\n") ? sample.input : `${sample.input}\n`
+      );
+      if (result.missingCommand) {
+        return { status: "unavailable", reason: `채점 환경에 \`${judge.run[0]}\`가 없습니다.` };
+      }
+      results.push({
+        index: index + 1,
+        verdict: toVerdict(result, sample.output),
+        durationMs: result.durationMs,
+        input: sample.input,
+        expected: sample.output,
+        actual: result.stdout,
+        stderr: result.stderr.replaceAll(dir, ".").trim()
+      });
+    }
+    return { status: "judged", timeLimitMs, samples: results };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+export const handler = async (request: JudgeRequest): Promise<JudgeResult> => runJudge(request);
@@ -0,0 +1,121 @@
+export type SupportedReviewLanguage = "Java" | "Python" | "C++";
+
+// Commands may use {dir} (working directory), {src} (source file), {main} (source file name without extension)
+// and {memoryMb} (memory limit).
+export interface JudgeProfile {
+  sourceFileName(code: string): string;
+  compile?: string[];
+  run: string[];
+  timeMultiplier: number;
+  // Added to the address-space limit: the JVM reserves code cache, class space and thread stacks up front,
+  // so Java gets a looser `ulimit -v` and its heap is bounded with -Xmx.
+  addressSpaceOverheadMb: number;
+}
+
+export interface LanguageProfile {
+  name: SupportedReviewLanguage;
+  codeFence: "java" | "python" | "cpp";
+  extension: ".java" | ".py" | ".cpp";
+  fallbackTemplate: string;
+  judge: JudgeProfile;
+}
+
+export const SUPPORTED_LANGUAGES: SupportedReviewLanguage[] = ["Java", "Python", "C++"];
+
+const JAVA_PROFILE: LanguageProfile = {
+  name: "Java",
+  codeFence: "java",
+  extension: ".java",
+  fallbackTemplate: `class Main {
+    public static void main(String[] args) throws Exception {
+        // TODO: solve
+    }
+}
+`,
+  judge: {
+    sourceFileName: (code) =>
+      `${code.match(/public\s+(?:final\s+)?class\s+(\w+)/)?.[1] ?? code.match(/\bclass\s+(\w+)/)?.[1] ?? "Main"}.java`,
+    compile: ["javac", "-J-Xmx512m", "-J-XX:+UseSerialGC", "-J-XX:TieredStopAtLevel=1", "-encoding", "UTF-8", "-d", "{dir}", "{src}"],
+    run: [
+      "java",
+      "-Xmx{memoryMb}m",
+      "-Xss64m",
+      "-XX:+UseSerialGC",
+      "-XX:ReservedCodeCacheSize=64m",
+      "-XX:CompressedClassSpaceSize=64m",
+      "-XX:MaxMetaspaceSize=128m",
+      "-Dfile.encoding=UTF-8",
+      "-cp",
+      "{dir}",
+      "{main}"
+    ],
+    timeMultiplier: 2,
+    addressSpaceOverheadMb: 1536
+  }
+};
+
+const PYTHON_PROFILE: LanguageProfile = {
+  name: "Python",
+  codeFence: "python",
+  extension: ".py",
+  fallbackTemplate: `import sys
+
+def solve() -> None:
+    # TODO: solve
+    pass
+
+if __name__ == "__main__":
+    solve()
+`,
+  judge: {
+    sourceFileName: () => "main.py",
+    run: ["python3", "{src}"],
+    timeMultiplier: 3,
+    addressSpaceOverheadMb: 0
+  }
+};
+
+const CPP_PROFILE: LanguageProfile = {
+  name: "C++",
+  codeFence: "cpp",
+  extension: ".cpp",
+  fallbackTemplate: `#include <bits/stdc++.h>
+using namespace std;
+
+int main() {
+    ios::sync_with_stdio(false);
+    cin.tie(nullptr);
+
+    // TODO: solve
+    return 0;
+}
+`,
+  judge: {
+    sourceFileName: () => "main.cpp",
+    compile: ["g++", "-std=gnu++17", "-O2", "-o", "{dir}/main", "{src}"],
+    run: ["{dir}/main"],
+    timeMultiplier: 1,
+    addressSpaceOverheadMb: 0
+  }
+};
+
+export function matchLanguageProfile(rawLanguage?: string): LanguageProfile | undefined {
+  const raw = (rawLanguage || "").trim().toLowerCase();
+
+  if (/python|pypy/.test(raw)) return PYTHON_PROFILE;
+  if (/c\+\+|cpp|g\+\+|clang\+\+/.test(raw)) return CPP_PROFILE;
+  if (/^java(?!script)|openjdk/.test(raw)) return JAVA_PROFILE;
+  return undefined;
+}
+
+export function resolveLanguageProfile(rawLanguage?: string): LanguageProfile {
+  return matchLanguageProfile(rawLanguage) ?? JAVA_PROFILE;
+}
+
+export function matchLanguageProfileByPath(path: string): LanguageProfile | undefined {
+  const lower = path.toLowerCase();
+  if (lower.endsWith(".py")) return PYTHON_PROFILE;
+  if (/\.(cpp|cc|cxx)$/.test(lower)) return CPP_PROFILE;
+  if (lower.endsWith(".java")) return JAVA_PROFILE;
+  return undefined;
+}
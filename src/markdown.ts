@@ -1,27 +1,386 @@
-import type { CrawledProblem, PrProblemMetadata } from "./types.js";
+import { load, type CheerioAPI } from "cheerio";
+import { isTag, isText, type AnyNode } from "domhandler";
+import { siteDisplayName } from "./sites.js";
+import type { CrawledProblem, PrProblemMetadata, ProblemSample, SolvedAcInfo } from "./types.js";
 
-function toParagraphOrFallback(html: string, fallback: string): string {
-  const cleaned = html
-    .replace(/<\/?[^>]+(>|$)/g, "")
-    .replace(/\s+/g, " ")
+export type OutputFormat = "default" | "baekjoonhub";
+
+interface ConvertState {
+  $: CheerioAPI;
+  baseUrl?: string;
+  preserved: string[];
+}
+
+const BLOCK_TAGS = new Set(["p", "div", "section", "article", "header", "footer", "center", "figure", "dl", "dd", "dt"]);
+
+function resolveUrl(raw: string | undefined, baseUrl?: string): string {
+  if (!raw) return "";
+  try {
+    return baseUrl ? new URL(raw, baseUrl).toString() : raw;
+  } catch {
+    return raw;
+  }
+}
+
+function normalizeMathDelimiters(text: string): string {
+  // Codeforces marks math as $$$...$$$ (inline) and $$$$$$...$$$$$$ (display); MathJax also accepts \(...\) and \[...\].
+  return text
+    .replace(/\${6}([\s\S]+?)\${6}/g, "$$$$$1$$$$")
+    .replace(/\${3}([\s\S]+?)\${3}/g, "$$$1$$")
+    .replace(/\\\(([\s\S]+?)\\\)/g, "$$$1$$")
+    .replace(/\\\[([\s\S]+?)\\\]/g, "$$$$$1$$$$");
+}
+
+function escapeMarkdownText(text: string): string {
+  // Leave math segments untouched so `$a<b$` and `$x_i$` still render; elsewhere stop `<x` from being read as a tag
+  // and `a*b*c` or `x_i_j` from turning into emphasis.
+  return text
+    .split(/(\$\$[\s\S]+?\$\$|\$[^$]+\$)/)
+    .map((part, index) =>
+      index % 2 === 1 ? part : part.replace(/<(?=[A-Za-z/!])/g, "&lt;").replace(/[*_`]/g, (char) => `\\${char}`)
+    )
+    .join("");
+}
+
+function preserve(state: ConvertState, text: string): string {
+  state.preserved.push(text);
+  return `\u0000${state.preserved.length - 1}\u0000`;
+}
+
+function restorePreserved(state: ConvertState, text: string): string {
+  return text.replace(/\u0000(\d+)\u0000/g, (_, index: string) => state.preserved[Number(index)] ?? "");
+}
+
+function toBlock(inner: string): string {
+  const trimmed = inner.trim();
+  return trimmed ? `\n\n${trimmed}\n\n` : "";
+}
+
+function wrapInline(inner: string, marker: string): string {
+  const trimmed = inner.trim();
+  if (!trimmed) return inner;
+  const leading = inner.match(/^\s*/)?.[0] ?? "";
+  const trailing = inner.match(/\s*$/)?.[0] ?? "";
+  return `${leading}${marker}${trimmed}${marker}${trailing}`;
+}
+
+function toInlineCode(text: string): string {
+  return text.includes("`") ? `\`\` ${text} \`\`` : `\`${text}\``;
+}
+
+function convertChildren(node: AnyNode, state: ConvertState): string {
+  return state
+    .$(node)
+    .contents()
+    .toArray()
+    .map((child) => convertNode(child, state))
+    .join("");
+}
+
+function convertList(node: AnyNode, state: ConvertState, ordered: boolean): string {
+  const start = Number(state.$(node).attr("start") ?? "1");
+  const items = state
+    .$(node)
+    .children("li")
+    .toArray()
+    .map((item, index) => {
+      const marker = ordered ? `${(Number.isFinite(start) ? start : 1) + index}. ` : "- ";
+      const content = restorePreserved(state, convertChildren(item, state))
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+      const indented = content
+        .split("\n")
+        .map((line, lineIndex) => (lineIndex === 0 || !line ? line : `${" ".repeat(marker.length)}${line}`))
+        .join("\n");
+      return `${marker}${indented}`;
+    });
+  return items.length > 0 ? `\n\n${items.join("\n")}\n\n` : "";
+}
+
+function convertTable(node: AnyNode, state: ConvertState): string {
+  const rows = state
+    .$(node)
+    .find("tr")
+    .toArray()
+    .map((row) =>
+      state
+        .$(row)
+        .children("th, td")
+        .toArray()
+        .map((cell) =>
+          restorePreserved(state, convertChildren(cell, state))
+            .replace(/\s*\n\s*/g, " ")
+            .replace(/\|/g, "\\|")
+            .trim()
+        )
+    )
+    .filter((cells) => cells.length > 0);
+  if (rows.length === 0) return "";
+
+  const columnCount = Math.max(...rows.map((cells) => cells.length));
+  const toRow = (cells: string[]) =>
+    `| ${Array.from({ length: columnCount }, (_, index) => cells[index] ?? "").join(" | ")} |`;
+  const [header, ...body] = rows;
+  const lines = [toRow(header), `| ${Array.from({ length: columnCount }, () => "---").join(" | ")} |`, ...body.map(toRow)];
+  return `\n\n${lines.join("\n")}\n\n`;
+}
+
+function convertNode(node: AnyNode, state: ConvertState): string {
+  const { $ } = state;
+  if (isText(node)) {
+    return escapeMarkdownText(normalizeMathDelimiters(node.data.replace(/\s+/g, " ")));
+  }
+  if (!isTag(node)) return "";
+
+  const element = $(node);
+  const tag = node.name.toLowerCase();
+
+  switch (tag) {
+    case "script": {
+      const scriptType = element.attr("type") ?? "";
+      if (!scriptType.startsWith("math/tex")) return "";
+      const tex = element.text().trim();
+      return scriptType.includes("mode=display") ? `$$${tex}$$` : `$${tex}$`;
+    }
+    case "style":
+    case "noscript":
+      return "";
+    case "br":
+      return "<br>\n";
+    case "hr":
+      return "\n\n---\n\n";
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6": {
+      const heading = convertChildren(node, state).replace(/\s+/g, " ").trim();
+      return heading ? `\n\n${"#".repeat(Number(tag.slice(1)))} ${heading}\n\n` : "";
+    }
+    case "strong":
+    case "b":
+      return wrapInline(convertChildren(node, state), "**");
+    case "em":
+    case "i":
+      return wrapInline(convertChildren(node, state), "*");
+    case "del":
+    case "s":
+      return wrapInline(convertChildren(node, state), "~~");
+    case "code":
+      return toInlineCode(element.text());
+    case "sup":
+    case "sub":
+      return `<${tag}>${convertChildren(node, state).trim()}</${tag}>`;
+    case "a": {
+      const text = convertChildren(node, state).trim();
+      const href = resolveUrl(element.attr("href"), state.baseUrl);
+      if (!href || href.startsWith("javascript:")) return text;
+      return `[${text || href}](${href})`;
+    }
+    case "img": {
+      const src = resolveUrl(element.attr("src") ?? element.attr("data-src"), state.baseUrl);
+      return src ? `![${element.attr("alt") ?? ""}](${src})` : "";
+    }
+    case "pre": {
+      const language = element.find("code").attr("class")?.match(/language-([\w+-]+)/)?.[1] ?? "";
+      const code = element.text().replace(/\r/g, "").replace(/^\n/, "").replace(/\s+$/, "");
+      return `\n\n${preserve(state, toFencedBlock(code, language))}\n\n`;
+    }
+    case "ul":
+      return convertList(node, state, false);
+    case "ol":
+      return convertList(node, state, true);
+    case "table":
+      return convertTable(node, state);
+    case "blockquote": {
+      const quoted = restorePreserved(state, convertChildren(node, state))
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+      return quoted ? `\n\n${quoted.replace(/^/gm, "> ")}\n\n` : "";
+    }
+    default:
+      return BLOCK_TAGS.has(tag) ? toBlock(convertChildren(node, state)) : convertChildren(node, state);
+  }
+}
+
+export function htmlToMarkdown(html: string, baseUrl?: string): string {
+  const $ = load(html, null, false);
+  const state: ConvertState = { $, baseUrl, preserved: [] };
+  const converted = $.root()
+    .contents()
+    .toArray()
+    .map((node) => convertNode(node, state))
+    .join("")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/<br>\n[ \t]+/g, "<br>\n")
+    .replace(/\n{3,}/g, "\n\n")
     .trim();
-  return cleaned || fallback;
+  return restorePreserved(state, converted);
+}
+
+function toMarkdownOrFallback(problem: CrawledProblem, content: string, fallback: string): string {
+  if (problem.contentFormat === "markdown") return content.trim() || fallback;
+  return htmlToMarkdown(content, problem.problemUrl) || fallback;
+}
+
+function toFencedBlock(text: string, language = ""): string {
+  // Use a fence longer than any backtick run inside the block so it cannot terminate early.
+  const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(longestRun + 1);
+  return `${fence}${language}\n${text}\n${fence}`;
+}
+
+function buildSamplesSection(samples: ProblemSample[]): string {
+  if (samples.length === 0) return "";
+
+  const blocks = samples.map((sample, index) => {
+    const lines = [
+      `#### 예제 입력 ${index + 1}`,
+      "",
+      toFencedBlock(sample.input),
+      "",
+      `#### 예제 출력 ${index + 1}`,
+      "",
+      toFencedBlock(sample.output)
+    ];
+    if (sample.explanation) {
+      lines.push("", `> ${sample.explanation.replace(/\n/g, "\n> ")}`);
+    }
+    return lines.join("\n");
+  });
+
+  return `\n### 예제\n\n${blocks.join("\n\n")}\n`;
+}
+
+function buildTierBadge(info: SolvedAcInfo): string {
+  const badge = `![${info.tier}](https://static.solved.ac/tier_small/${info.level}.svg) ${info.tier}`;
+  return `${badge} · 맞힌 사람 ${info.acceptedUserCount.toLocaleString("en-US")}명`;
+}
+
+// BaekjoonHub stores numbers only and appends the units itself.
+function toBaekjoonHubMeasure(raw: string | undefined): string {
+  return raw?.match(/\d+(?:\.\d+)?/)?.[0] ?? "N/A";
+}
+
+function toBaekjoonHubDate(raw: string | undefined): string {
+  if (!raw) return "N/A";
+  const timestamp = Date.parse(raw);
+  if (Number.isNaN(timestamp)) return raw;
+
+  const kst = new Date(timestamp + 9 * 60 * 60 * 1000);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const time = `${pad(kst.getUTCHours())}:${pad(kst.getUTCMinutes())}:${pad(kst.getUTCSeconds())}`;
+  return `${kst.getUTCFullYear()}년 ${kst.getUTCMonth() + 1}월 ${kst.getUTCDate()}일 ${time}`;
+}
+
+// BaekjoonHub keeps the statement HTML as-is instead of converting it to Markdown.
+function toBaekjoonHubStatement(content: string, fallback: string): string {
+  return content.trim() || fallback;
 }
 
-export function buildProblemMarkdown(metadata: PrProblemMetadata, problem: CrawledProblem): string {
-  const sitePrefix =
-    metadata.site === "BOJ" ? "백준" : metadata.site === "PROGRAMMERS" ? "프로그래머스" : metadata.site ?? "Unknown";
-  const number = metadata.problemNumber ?? "N/A";
+// Mirrors the README BaekjoonHub writes, including its trailing spaces, so existing indexers keep working.
+function buildBaekjoonHubMarkdown(metadata: PrProblemMetadata, problem: CrawledProblem): string {
+  const number = problem.displayId ?? metadata.problemNumber ?? "N/A";
+  const level = problem.solvedAc?.tier ?? problem.difficulty ?? "Unrated";
+  const tags = problem.solvedAc?.tags.length ? problem.solvedAc.tags : problem.classification;
+  const classification = tags.length > 0 ? tags.join(", ") : "Empty";
+
+  return `# [${level}] ${problem.title} - ${number} 
+
+[문제 링크](${problem.problemUrl ?? ""}) 
+
+### 성능 요약
+
+메모리: ${toBaekjoonHubMeasure(metadata.memory)} KB, 시간: ${toBaekjoonHubMeasure(metadata.runtime)} ms
+
+### 분류
+
+${classification}
+
+### 제출 일자
+
+${toBaekjoonHubDate(metadata.submittedAt)}
+
+### 문제 설명
+
+${toBaekjoonHubStatement(problem.descriptionHtml, "문제 설명을 불러오지 못했습니다.")}
+
+### 입력 
+
+ ${toBaekjoonHubStatement(problem.inputHtml, "입력 설명을 불러오지 못했습니다.")}
+
+### 출력 
+
+ ${toBaekjoonHubStatement(problem.outputHtml, "출력 설명을 불러오지 못했습니다.")}
+
+`;
+}
+
+const BAEKJOONHUB_WIDE_CHARS: Record<string, string> = {
+  "!": "！",
+  "%": "％",
+  "&": "＆",
+  "(": "（",
+  ")": "）",
+  "*": "＊",
+  "+": "＋",
+  ",": "，",
+  "-": "－",
+  ".": "．",
+  "/": "／",
+  ":": "：",
+  ";": "；",
+  "<": "＜",
+  "=": "＝",
+  ">": "＞",
+  "?": "？",
+  "@": "＠",
+  "[": "［",
+  "\\": "＼",
+  "]": "］",
+  "^": "＾",
+  _: "＿",
+  "`": "｀",
+  "{": "｛",
+  "|": "｜",
+  "}": "｝",
+  "~": "～",
+  // BaekjoonHub turns spaces into FOUR-PER-EM SPACE rather than a full-width space.
+  " ": "\u2005"
+};
+
+// Same conversion BaekjoonHub applies to folder and file names.
+export function toBaekjoonHubTitle(raw: string): string {
+  return raw.trim().replace(/[!%&()*+,\-./:;<=>?@[\\\]^_`{|}~ ]/g, (char) => BAEKJOONHUB_WIDE_CHARS[char] ?? char);
+}
+
+export function buildProblemMarkdown(
+  metadata: PrProblemMetadata,
+  problem: CrawledProblem,
+  format: OutputFormat = "default"
+): string {
+  if (format === "baekjoonhub") return buildBaekjoonHubMarkdown(metadata, problem);
+
+  const sitePrefix = metadata.site ? siteDisplayName(metadata.site) : metadata.siteLabel ?? "Unknown";
+  const number = problem.displayId ?? metadata.problemNumber ?? "N/A";
   const submittedAt = metadata.submittedAt ?? "N/A";
   const runtime = metadata.runtime ?? "N/A";
   const memory = metadata.memory ?? "N/A";
 
   const classification = problem.classification.length > 0 ? problem.classification.join(", ") : "N/A";
+  const difficultySection = problem.solvedAc
+    ? `\n### 난이도\n\n${buildTierBadge(problem.solvedAc)}\n`
+    : problem.difficulty
+      ? `\n### 난이도\n\n${problem.difficulty}\n`
+      : "";
+  const notes = toMarkdownOrFallback(problem, problem.notesHtml ?? "", "");
+  const notesSection = notes ? `\n### 노트\n\n${notes}\n` : "";
 
   return `# [${sitePrefix}] ${problem.title} - ${number}
 
-[문제 링크](${problem.problemUrl})
-
+${problem.problemUrl ? `[문제 링크](${problem.problemUrl})` : "문제 링크: N/A"}
+${difficultySection}
 ### 성능 요약
 
 메모리: ${memory}, 시간: ${runtime}
@@ -36,16 +395,16 @@ ${submittedAt}
 
 ### 문제 설명
 
-${toParagraphOrFallback(problem.descriptionHtml, "문제 설명을 불러오지 못했습니다.")}
+${toMarkdownOrFallback(problem, problem.descriptionHtml, "문제 설명을 불러오지 못했습니다.")}
 
 ### 입력
 
-${toParagraphOrFallback(problem.inputHtml, "입력 설명을 불러오지 못했습니다.")}
+${toMarkdownOrFallback(problem, problem.inputHtml, "입력 설명을 불러오지 못했습니다.")}
 
 ### 출력
 
-${toParagraphOrFallback(problem.outputHtml, "출력 설명을 불러오지 못했습니다.")}
-`;
+${toMarkdownOrFallback(problem, problem.outputHtml, "출력 설명을 불러오지 못했습니다.")}
+${buildSamplesSection(problem.samples)}${notesSection}`;
 }
 
 export function sanitizeProblemTitle(raw: string): string {
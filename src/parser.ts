@@ -1,13 +1,33 @@
-import type { PrProblemMetadata, SupportedSite } from "./types.js";
+import { parseDocument } from "yaml";
+import { extractProblemIdFromUrl } from "./sites.js";
+import type { PrProblemMetadata, ProblemStatement, SupportedSite } from "./types.js";
 
-function parseSite(raw: string): SupportedSite | undefined {
+export interface TemplateFieldError {
+  field: string;
+  message: string;
+}
+
+export interface StructuredMetadata {
+  problems: PrProblemMetadata[];
+  errors: TemplateFieldError[];
+}
+
+export function parseSite(raw: string): SupportedSite | undefined {
   const trimmed = raw.trim();
   if (trimmed === "백준") return "BOJ";
   if (trimmed === "프로그래머스") return "PROGRAMMERS";
+  if (trimmed === "코드포스") return "CODEFORCES";
+  if (trimmed === "리트코드") return "LEETCODE";
+  if (trimmed === "소프티어") return "SOFTEER";
+  if (trimmed === "삼성 SW Expert Academy" || trimmed === "SW 익스퍼트 아카데미") return "SWEA";
 
   const value = trimmed.toUpperCase();
   if (value === "BOJ" || value === "BAEKJOON") return "BOJ";
   if (value === "PROGRAMMERS" || value === "PGM" || value === "PROG") return "PROGRAMMERS";
+  if (value === "CODEFORCES" || value === "CF") return "CODEFORCES";
+  if (value === "LEETCODE" || value === "LC") return "LEETCODE";
+  if (value === "SWEA" || value.replace(/\s+/g, "") === "SWEXPERTACADEMY") return "SWEA";
+  if (value === "SOFTEER") return "SOFTEER";
   return undefined;
 }
 
@@ -44,7 +64,9 @@ function extractAllFields(body: string, labels: string[]): string[] {
 }
 
 function selectProblemUrl(urlCandidates: string[], site?: SupportedSite): string | undefined {
-  if (urlCandidates.length === 0) return undefined;
+  // Untouched template lines such as `https://www.acmicpc.net/problem/{문제번호}` are not real links.
+  const filled = urlCandidates.filter((raw) => !/[{}]/.test(raw));
+  if (filled.length === 0) return undefined;
 
   const validUrl = (raw: string): string | undefined => {
     try {
@@ -55,54 +77,486 @@ function selectProblemUrl(urlCandidates: string[], site?: SupportedSite): string
     }
   };
 
-  const normalized = urlCandidates.map(validUrl).filter((v): v is string => Boolean(v));
+  const normalized = filled.map(validUrl).filter((v): v is string => Boolean(v));
   if (normalized.length === 0) return undefined;
+  if (!site) return normalized[0];
+
+  return normalized.find((url) => Boolean(extractProblemIdFromUrl(site, url))) ?? normalized[0];
+}
+
+export function normalizeProblemNumber(
+  raw: string | undefined,
+  site?: SupportedSite,
+  problemUrl?: string
+): string | undefined {
+  // LeetCode problems are addressed by slug; the URL is the most reliable source for it.
+  if (site === "LEETCODE") {
+    const slug = problemUrl ? extractProblemIdFromUrl("LEETCODE", problemUrl) : undefined;
+    return slug ?? raw?.trim().toLowerCase().replace(/\s+/g, "-");
+  }
+  if (!raw) return undefined;
+  if (site === "CODEFORCES") return raw.replace(/\s+/g, "").toUpperCase();
+  return raw;
+}
+
+const STATEMENT_DETAILS_RE = /<details[^>]*>\s*<summary[^>]*>([\s\S]*?)<\/summary>([\s\S]*?)<\/details>/gi;
+const STATEMENT_FENCE_RE = /^```+\s*(?:problem|problem-statement|statement)\s*\n([\s\S]*?)\n```+\s*$/gim;
+
+type StatementSection = "title" | "description" | "input" | "output";
+
+function matchStatementSection(label: string): StatementSection | undefined {
+  const normalized = label.replace(/[:：]$/, "").trim().toLowerCase();
+  if (["title", "제목", "문제 제목"].includes(normalized)) return "title";
+  if (["description", "problem", "문제", "문제 설명", "본문"].includes(normalized)) return "description";
+  if (["input", "입력", "입력 형식"].includes(normalized)) return "input";
+  if (["output", "출력", "출력 형식"].includes(normalized)) return "output";
+  return undefined;
+}
+
+function parseStatementContent(content: string): ProblemStatement | undefined {
+  const sections: Record<StatementSection, string[]> = { title: [], description: [], input: [], output: [] };
+  let current: StatementSection = "description";
+
+  for (const line of content.split("\n")) {
+    const heading = line.match(/^\s*(?:#{1,6}\s*(.+?)|\*\*(.+?)\*\*)\s*$/);
+    const headingSection = heading ? matchStatementSection(heading[1] ?? heading[2] ?? "") : undefined;
+    if (headingSection) {
+      current = headingSection;
+      continue;
+    }
+
+    const inlineTitle = line.match(/^\s*(?:Title|제목)\s*:\s*(.+)$/i);
+    if (inlineTitle && sections.title.length === 0) {
+      sections.title.push(inlineTitle[1]);
+      continue;
+    }
+
+    sections[current].push(line);
+  }
+
+  const join = (lines: string[]) => lines.join("\n").trim() || undefined;
+  const description = join(sections.description);
+  if (!description) return undefined;
+
+  return {
+    title: join(sections.title),
+    description,
+    input: join(sections.input),
+    output: join(sections.output)
+  };
+}
+
+function extractProblemStatement(body: string): { statement?: ProblemStatement; rest: string } {
+  let statement: ProblemStatement | undefined;
+
+  const rest = body
+    .replace(STATEMENT_DETAILS_RE, (block, summary: string, content: string) => {
+      if (statement || !/problem\s*statement|문제\s*(본문|설명)/i.test(summary)) return block;
+      statement = parseStatementContent(content);
+      return "";
+    })
+    .replace(STATEMENT_FENCE_RE, (block, content: string) => {
+      if (statement) return block;
+      statement = parseStatementContent(content);
+      return "";
+    });
+
+  return { statement, rest };
+}
+
+const STRUCTURED_FENCE_RE = /^```+[ \t]*ya?ml[ \t]+ct-review[ \t]*\n([\s\S]*?)\n```+[ \t]*$/im;
+const FRONT_MATTER_RE = /^\uFEFF?---[ \t]*\n([\s\S]*?)\n---[ \t]*(?:\n|$)/;
+
+type StructuredField = Exclude<keyof PrProblemMetadata, "siteLabel">;
+
+const STRUCTURED_FIELD_ALIASES: Record<string, StructuredField> = {
+  site: "site",
+  problem: "problemNumber",
+  problem_number: "problemNumber",
+  problemNumber: "problemNumber",
+  number: "problemNumber",
+  url: "problemUrl",
+  problem_url: "problemUrl",
+  problemUrl: "problemUrl",
+  language: "language",
+  lang: "language",
+  ask: "ask",
+  asks: "ask",
+  runtime: "runtime",
+  memory: "memory",
+  submitted_at: "submittedAt",
+  submittedAt: "submittedAt",
+  status: "status",
+  force_refresh: "forceRefresh",
+  forceRefresh: "forceRefresh",
+  statement: "statement",
+  file: "sourcePath",
+  source: "sourcePath",
+  path: "sourcePath"
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toScalarString(value: unknown): string | undefined {
+  if (typeof value === "string") return value.trim() || undefined;
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return undefined;
+}
+
+function parseStructuredStatement(
+  value: unknown,
+  field: string,
+  errors: TemplateFieldError[]
+): ProblemStatement | undefined {
+  if (typeof value === "string") {
+    return value.trim() ? { description: value.trim() } : undefined;
+  }
+  if (!isPlainObject(value)) {
+    errors.push({ field, message: "문자열 또는 title/description/input/output 매핑이어야 합니다." });
+    return undefined;
+  }
+
+  const description = toScalarString(value.description);
+  if (!description) {
+    errors.push({ field: `${field}.description`, message: "문제 설명이 비어 있습니다." });
+    return undefined;
+  }
+  return {
+    title: toScalarString(value.title),
+    description,
+    input: toScalarString(value.input),
+    output: toScalarString(value.output)
+  };
+}
+
+function parseStructuredProblem(
+  raw: unknown,
+  prefix: string,
+  errors: TemplateFieldError[]
+): PrProblemMetadata {
+  const result: PrProblemMetadata = {};
+  if (!isPlainObject(raw)) {
+    errors.push({ field: prefix.replace(/\.$/, "") || "(root)", message: "key: value 형식의 매핑이어야 합니다." });
+    return result;
+  }
+
+  for (const [key, value] of Object.entries(raw)) {
+    const field = `${prefix}${key}`;
+    // Own keys only: `constructor` or `toString` must be reported as unknown, not resolved from the prototype.
+    const target = Object.hasOwn(STRUCTURED_FIELD_ALIASES, key) ? STRUCTURED_FIELD_ALIASES[key] : undefined;
+    if (!target) {
+      errors.push({
+        field,
+        message: `알 수 없는 필드입니다. (사용 가능: site, problem, url, language, ask, runtime, memory, submitted_at, status, force_refresh, statement, file)`
+      });
+      continue;
+    }
+    if (value === null || value === undefined) continue;
+
+    switch (target) {
+      case "site": {
+        const text = toScalarString(value);
+        if (!text) {
+          errors.push({ field, message: "문자열이어야 합니다." });
+          break;
+        }
+        result.site = parseSite(text);
+        if (!result.site) result.siteLabel = text;
+        break;
+      }
+      case "problemNumber":
+      case "language":
+      case "runtime":
+      case "memory":
+      case "submittedAt":
+      case "status":
+      case "sourcePath": {
+        const text = toScalarString(value);
+        if (text) result[target] = text;
+        else errors.push({ field, message: "문자열 또는 숫자여야 합니다." });
+        break;
+      }
+      case "problemUrl": {
+        const text = toScalarString(value);
+        try {
+          result.problemUrl = new URL(text ?? "").toString();
+        } catch {
+          errors.push({ field, message: `올바른 URL이 아닙니다: ${JSON.stringify(value)}` });
+        }
+        break;
+      }
+      case "ask": {
+        const asks = Array.isArray(value) ? value : [value];
+        const texts = asks.map(toScalarString);
+        if (texts.some((text) => text === undefined)) {
+          errors.push({ field, message: "문자열 또는 문자열 목록이어야 합니다." });
+          break;
+        }
+        result.ask = texts.length > 1 ? texts.map((text) => `- ${text}`).join("\n") : texts[0];
+        break;
+      }
+      case "forceRefresh": {
+        // YAML 1.2 reads `yes`/`no` as strings, so accept those spellings explicitly.
+        const isBooleanText = typeof value === "string" && /^(true|yes|on|false|no|off)$/i.test(value.trim());
+        if (typeof value === "boolean") {
+          result.forceRefresh = value;
+        } else if (isBooleanText) {
+          result.forceRefresh = parseBooleanField(value);
+        } else {
+          errors.push({ field, message: "true 또는 false여야 합니다." });
+        }
+        break;
+      }
+      case "statement":
+        result.statement = parseStructuredStatement(value, field, errors);
+        break;
+    }
+  }
+
+  return result;
+}
+
+function withoutUndefined(metadata: PrProblemMetadata): PrProblemMetadata {
+  return Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined)) as PrProblemMetadata;
+}
+
+function finalizeStructuredProblem(metadata: PrProblemMetadata): PrProblemMetadata {
+  return withoutUndefined({
+    ...metadata,
+    problemNumber: normalizeProblemNumber(metadata.problemNumber, metadata.site, metadata.problemUrl)
+  });
+}
+
+function parseStructuredYaml(source: string): StructuredMetadata {
+  const errors: TemplateFieldError[] = [];
+  const document = parseDocument(source);
+  if (document.errors.length > 0) {
+    const [first] = document.errors;
+    const line = first.linePos?.[0]?.line;
+    const reason = first.message.split("\n")[0].replace(/ at line \d+, column \d+:?$/, "");
+    return {
+      problems: [],
+      errors: [{ field: "yaml", message: `YAML 문법 오류${line ? ` (${line}번째 줄)` : ""}: ${reason}` }]
+    };
+  }
+
+  const root: unknown = document.toJS();
+  if (!isPlainObject(root)) {
+    return { problems: [], errors: [{ field: "(root)", message: "key: value 형식의 매핑이어야 합니다." }] };
+  }
+
+  const { problems: rawProblems, ...rawDefaults } = root;
+  const defaults = parseStructuredProblem(rawDefaults, "", errors);
+  if (rawProblems === undefined) {
+    return { problems: [finalizeStructuredProblem(defaults)], errors };
+  }
 
-  if (site === "BOJ") {
-    return (
-      normalized.find((url) => /(^|\.)acmicpc\.net$/i.test(new URL(url).hostname) && /\/problem\/\d+/.test(new URL(url).pathname)) ??
-      normalized[0]
-    );
+  if (!Array.isArray(rawProblems) || rawProblems.length === 0) {
+    errors.push({ field: "problems", message: "문제 목록(- site: ...)이어야 합니다." });
+    return { problems: [], errors };
   }
 
-  if (site === "PROGRAMMERS") {
-    return (
-      normalized.find(
-        (url) => /(^|\.)programmers\.co\.kr$/i.test(new URL(url).hostname) && /\/lessons\/\d+/.test(new URL(url).pathname)
-      ) ?? normalized[0]
-    );
+  // Top-level fields act as defaults for every entry (e.g. a shared language).
+  const problems = rawProblems.map((item, index) => {
+    const prefix = `problems[${index}].`;
+    const entry = parseStructuredProblem(item, prefix, errors);
+    return finalizeStructuredProblem({ ...withoutUndefined(defaults), ...withoutUndefined(entry) });
+  });
+  return { problems, errors };
+}
+
+function extractStructuredMetadata(body: string): { structured?: StructuredMetadata; rest: string } {
+  const fenced = body.match(STRUCTURED_FENCE_RE);
+  if (fenced) {
+    return { structured: parseStructuredYaml(fenced[1]), rest: body.replace(fenced[0], "") };
   }
 
-  return normalized[0];
+  const frontMatter = body.match(FRONT_MATTER_RE);
+  if (frontMatter) {
+    return { structured: parseStructuredYaml(frontMatter[1]), rest: body.slice(frontMatter[0].length) };
+  }
+
+  return { rest: body };
+}
+
+export function parseStructuredMetadata(body?: string | null): StructuredMetadata | undefined {
+  if (!body) return undefined;
+  return extractStructuredMetadata(body).structured;
 }
 
-export function parsePrBody(body?: string | null): PrProblemMetadata {
-  if (!body) return {};
+// `Status: WIP` marks an attempt that is still in progress, which switches the review to hints only.
+export function isWorkInProgressStatus(status?: string): boolean {
+  if (!status) return false;
+  return /^(wip|in[ -]?progress|draft|stuck|unsolved|진행\s*중|미해결|풀이\s*중)$/i.test(status.trim());
+}
+
+function parseBooleanField(raw?: string): boolean {
+  if (!raw) return false;
+  return /^(true|yes|y|on|1)$/i.test(raw.trim());
+}
+
+function parseLineFields(rawBody: string): PrProblemMetadata {
+  // The pasted statement is removed first so its lines cannot be mistaken for template fields.
+  const { statement, rest: body } = extractProblemStatement(rawBody);
   const siteRaw = extractFirstField(body, ["Site", "사이트"]);
   const site = siteRaw ? parseSite(siteRaw) : undefined;
-  const problemNumber = extractFirstField(body, ["Problem Number", "문제 번호", "문제번호"]);
   const problemUrl = selectProblemUrl(
     extractAllFields(body, ["URL", "Problem URL", "URL (PROGRAMMERS)", "문제 링크", "문제 URL"]),
     site
   );
+  const problemNumber = normalizeProblemNumber(
+    extractFirstField(body, ["Problem Number", "문제 번호", "문제번호"]),
+    site,
+    problemUrl
+  );
   const ask = extractField(body, "피드백 요청할 부분") ?? extractField(body, "ASK");
   const language = extractFirstField(body, ["Language", "언어"]);
   const runtime = extractField(body, "Runtime");
   const memory = extractField(body, "Memory");
   const submittedAt = extractField(body, "Submitted At");
+  const status = extractFirstField(body, ["Status", "상태"]);
+  const forceRefresh = parseBooleanField(extractFirstField(body, ["Force Refresh", "문제 새로고침"]));
+  const sourcePath = extractFirstField(body, ["File", "Source", "파일"])?.replace(/`/g, "");
 
   return {
     site,
+    siteLabel: site ? undefined : siteRaw,
     problemNumber,
     problemUrl,
     language,
     ask,
     runtime,
     memory,
-    submittedAt
+    submittedAt,
+    status,
+    forceRefresh,
+    statement,
+    sourcePath
   };
 }
 
+export function parsePrBody(rawBody?: string | null): PrProblemMetadata {
+  if (!rawBody) return {};
+  const { structured, rest } = extractStructuredMetadata(rawBody);
+  const lineBased = parseLineFields(rest);
+  const [primary] = structured?.problems ?? [];
+  if (!primary) return lineBased;
+
+  // Values from the YAML block win; line-based fields only fill what it leaves out.
+  const merged: PrProblemMetadata = { ...lineBased, ...primary };
+  if (primary.site) merged.siteLabel = undefined;
+  if (primary.siteLabel) merged.site = undefined;
+  return merged;
+}
+
+const SITE_LINE_RE = /^[ \t]*-?[ \t]*(?:Site|사이트)[ \t]*:[ \t]*\S.*$/gim;
+
+// Each filled `Site:` line starts a new problem block; lines above the first one are shared by every block.
+function parseRepeatedBlocks(body: string): PrProblemMetadata[] {
+  const starts = [...body.matchAll(SITE_LINE_RE)].map((match) => match.index ?? 0);
+  if (starts.length < 2) return [];
+
+  const shared = withoutUndefined(parseLineFields(body.slice(0, starts[0])));
+  const ask = extractField(body, "피드백 요청할 부분") ?? extractField(body, "ASK");
+  return starts.map((start, index) => {
+    const block = body.slice(start, starts[index + 1] ?? body.length);
+    return { ...shared, ask, ...withoutUndefined(parseLineFields(block)) };
+  });
+}
+
+type TableColumn = "site" | "problemNumber" | "problemUrl" | "language" | "sourcePath";
+
+const TABLE_COLUMN_ALIASES: Record<string, TableColumn> = {
+  site: "site",
+  사이트: "site",
+  "problem number": "problemNumber",
+  problem: "problemNumber",
+  "문제 번호": "problemNumber",
+  문제번호: "problemNumber",
+  url: "problemUrl",
+  "problem url": "problemUrl",
+  "문제 링크": "problemUrl",
+  language: "language",
+  언어: "language",
+  file: "sourcePath",
+  source: "sourcePath",
+  파일: "sourcePath"
+};
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/`/g, ""));
+}
+
+function parseProblemTable(body: string, defaults: PrProblemMetadata): PrProblemMetadata[] {
+  const lines = body.split("\n");
+  for (let i = 0; i + 2 < lines.length; i += 1) {
+    if (!lines[i].trim().startsWith("|") || !/^\s*\|?[\s:|-]+\|?\s*$/.test(lines[i + 1])) continue;
+
+    const columns = splitTableRow(lines[i])
+      .map((cell) => cell.toLowerCase())
+      .map((key) => (Object.hasOwn(TABLE_COLUMN_ALIASES, key) ? TABLE_COLUMN_ALIASES[key] : undefined));
+    if (!columns.includes("site") || !columns.includes("problemNumber")) continue;
+
+    const problems: PrProblemMetadata[] = [];
+    for (const line of lines.slice(i + 2)) {
+      if (!line.trim().startsWith("|")) break;
+      const cells = splitTableRow(line);
+      const value = (column: TableColumn): string | undefined => cells[columns.indexOf(column)] || undefined;
+
+      const siteRaw = value("site");
+      if (!siteRaw && !value("problemNumber")) continue;
+      const site = siteRaw ? parseSite(siteRaw) : undefined;
+      const problemUrl = selectProblemUrl([value("problemUrl")?.match(/https?:\/\/[^\s)>\]]+/)?.[0] ?? ""], site);
+      problems.push({
+        ...defaults,
+        site,
+        siteLabel: site ? undefined : siteRaw,
+        problemNumber: normalizeProblemNumber(value("problemNumber"), site, problemUrl),
+        problemUrl,
+        language: value("language") ?? defaults.language,
+        sourcePath: value("sourcePath")
+      });
+    }
+    return problems;
+  }
+  return [];
+}
+
+// Returns every problem described in the PR body, in order. Always returns at least one entry.
+export function parsePrProblems(rawBody?: string | null): PrProblemMetadata[] {
+  if (!rawBody) return [{}];
+  const { structured, rest } = extractStructuredMetadata(rawBody);
+  if (structured && structured.problems.length > 1) return structured.problems;
+  if (structured?.problems.length === 1) return [parsePrBody(rawBody)];
+
+  const { rest: body } = extractProblemStatement(rest);
+  const lineBased = parseLineFields(rest);
+  const defaults = withoutUndefined({ language: lineBased.language, ask: lineBased.ask });
+  const table = parseProblemTable(body, defaults);
+  if (table.length > 0) return table;
+
+  const blocks = parseRepeatedBlocks(rest);
+  if (blocks.length > 0) return blocks;
+  return [lineBased];
+}
+
+export function findMissingRequiredFields(metadata: PrProblemMetadata): string[] {
+  // Sites without a crawler are accepted as long as the author pasted the statement.
+  const hasSite = Boolean(metadata.site || (metadata.siteLabel && metadata.statement));
+  const missing: string[] = [];
+  if (!hasSite) missing.push("site");
+  if (!metadata.problemNumber) missing.push("problem");
+  if (!metadata.language) missing.push("language");
+  return missing;
+}
+
 export function hasRequiredTemplateFields(metadata: PrProblemMetadata): boolean {
-  return Boolean(metadata.site && metadata.problemNumber && metadata.language);
+  return findMissingRequiredFields(metadata).length === 0;
 }
@@ -0,0 +1,143 @@
+import { sanitizeProblemTitle, toBaekjoonHubTitle, type OutputFormat } from "./markdown.js";
+import { SUPPORTED_SITES, siteDisplayName } from "./sites.js";
+import type { CrawledProblem, PrProblemMetadata, SupportedSite } from "./types.js";
+
+export interface PathTemplates {
+  readme: string;
+  code: string;
+}
+
+export const DEFAULT_PATH_TEMPLATES: PathTemplates = {
+  readme: "{site}/{number}.{title}/README.md",
+  code: "{site}/{number}.{title}/{title}{ext}"
+};
+
+// `백준/Bronze/1000. A＋B/A＋B.java`, as laid out by the BaekjoonHub browser extension.
+export const BAEKJOONHUB_PATH_TEMPLATES: PathTemplates = {
+  readme: "{siteKo}/{tier}/{number}. {title}/README.md",
+  code: "{siteKo}/{tier}/{number}. {title}/{title}{ext}"
+};
+
+export const PATH_PLACEHOLDERS = ["site", "siteKo", "siteId", "tier", "number", "title", "author", "lang", "ext"] as const;
+
+type PathPlaceholder = (typeof PATH_PLACEHOLDERS)[number];
+
+export type PathValues = Record<PathPlaceholder, string>;
+
+const CODE_EXTENSIONS = ["java", "py", "cpp", "cc", "cxx"];
+
+export function siteKoreanName(site: SupportedSite): string {
+  switch (site) {
+    case "BOJ":
+      return "백준";
+    case "PROGRAMMERS":
+      return "프로그래머스";
+    case "CODEFORCES":
+      return "코드포스";
+    case "LEETCODE":
+      return "리트코드";
+    case "SWEA":
+      return "SW 익스퍼트 아카데미";
+    case "SOFTEER":
+      return "소프티어";
+  }
+}
+
+function toPathSegment(raw: string, fallback: string): string {
+  return sanitizeProblemTitle(raw) || fallback;
+}
+
+export function buildPathValues(
+  metadata: PrProblemMetadata,
+  problem: CrawledProblem,
+  language: { name: string; extension: string },
+  author?: string,
+  format: OutputFormat = "default"
+): PathValues {
+  // Unsupported sites (pasted statements) use the label the author wrote as their folder name.
+  const siteLabel = toPathSegment(metadata.siteLabel ?? "", "기타");
+  const tier = problem.solvedAc?.tier.split(" ")[0] ?? problem.difficulty ?? "Unrated";
+
+  return {
+    site: metadata.site ? siteDisplayName(metadata.site) : siteLabel,
+    siteKo: metadata.site ? siteKoreanName(metadata.site) : siteLabel,
+    siteId: metadata.site ?? siteLabel,
+    tier: toPathSegment(tier, "Unrated"),
+    // The number the author wrote (a slug on LeetCode) is known even when crawling fails, so folders stay stable.
+    number: toPathSegment(metadata.problemNumber ?? "", "0"),
+    title: format === "baekjoonhub" ? toBaekjoonHubTitle(problem.title) || "문제" : toPathSegment(problem.title, "문제"),
+    author: toPathSegment(author ?? "", "unknown"),
+    lang: language.name,
+    ext: language.extension
+  };
+}
+
+export function renderPathTemplate(template: string, values: PathValues): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    (PATH_PLACEHOLDERS as readonly string[]).includes(key) ? values[key as PathPlaceholder] : match
+  );
+}
+
+export function findUnknownPlaceholders(template: string): string[] {
+  return [...template.matchAll(/\{(\w+)\}/g)]
+    .map((match) => match[1])
+    .filter((key) => !(PATH_PLACEHOLDERS as readonly string[]).includes(key));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// `anySite` lets the site placeholders match any folder name, such as the label of an unsupported site.
+function placeholderPattern(key: PathPlaceholder, anySite: boolean): string {
+  const alternatives = (names: string[]) => `(?:${names.map(escapeRegExp).join("|")})`;
+  if (anySite && (key === "site" || key === "siteKo" || key === "siteId")) return "[^/]+?";
+  switch (key) {
+    case "site":
+      return alternatives(SUPPORTED_SITES.map(siteDisplayName));
+    case "siteKo":
+      return alternatives(SUPPORTED_SITES.map(siteKoreanName));
+    case "siteId":
+      return alternatives(SUPPORTED_SITES);
+    case "ext":
+      return `\\.(?:${CODE_EXTENSIONS.join("|")})`;
+    default:
+      return "[^/]+?";
+  }
+}
+
+// Each placeholder becomes a named group; repeated placeholders must repeat the same text.
+function templateToRegExp(template: string, anySite = false): RegExp {
+  const seen = new Set<string>();
+  const pattern = template
+    .split(/(\{\w+\})/)
+    .map((part) => {
+      const key = part.match(/^\{(\w+)\}$/)?.[1];
+      if (!key || !(PATH_PLACEHOLDERS as readonly string[]).includes(key)) return escapeRegExp(part);
+      if (seen.has(key)) return `\\k<${key}>`;
+      seen.add(key);
+      return `(?<${key}>${placeholderPattern(key as PathPlaceholder, anySite)})`;
+    })
+    .join("");
+  return new RegExp(`^${pattern}$`);
+}
+
+export function matchPathTemplate(template: string, path: string): Partial<PathValues> | undefined {
+  const groups = path.match(templateToRegExp(template))?.groups;
+  return groups ? (Object.fromEntries(Object.entries(groups).filter(([, value]) => value !== undefined)) as Partial<PathValues>) : undefined;
+}
+
+export function siteFromPathValues(values: Partial<PathValues>): SupportedSite | undefined {
+  return SUPPORTED_SITES.find(
+    (site) => values.siteId === site || values.site === siteDisplayName(site) || values.siteKo === siteKoreanName(site)
+  );
+}
+
+// Recognizes code files this app committed, both for the configured layout and for the default one. Pasted-statement
+// problems are filed under the site label the author wrote, so here the site folder may have any name.
+export function buildGeneratedFileMatcher(codeTemplate: string = DEFAULT_PATH_TEMPLATES.code): (path: string) => boolean {
+  const patterns = [...new Set([codeTemplate, DEFAULT_PATH_TEMPLATES.code])].map((template) =>
+    templateToRegExp(template, true)
+  );
+  return (path) => patterns.some((pattern) => pattern.test(path));
+}
@@ -0,0 +1,116 @@
+import type { SupportedSite } from "./types.js";
+
+export const SUPPORTED_SITES: SupportedSite[] = ["BOJ", "PROGRAMMERS", "CODEFORCES", "LEETCODE", "SWEA", "SOFTEER"];
+
+interface SiteRule {
+  host: RegExp;
+  problemNumberPattern: RegExp;
+  problemNumberExample: string;
+  urlExample: string;
+  // SWEA URLs carry an internal contestProbId, which cannot be compared with the visible problem number.
+  urlCarriesProblemNumber: boolean;
+  // Programmers and LeetCode call a solution function, so their samples cannot be fed through stdin.
+  usesStandardIo: boolean;
+  parseProblemId(url: URL): string | undefined;
+}
+
+const SITE_RULES: Record<SupportedSite, SiteRule> = {
+  BOJ: {
+    host: /(^|\.)acmicpc\.net$/i,
+    problemNumberPattern: /^\d+$/,
+    problemNumberExample: "1000",
+    urlExample: "https://www.acmicpc.net/problem/{문제번호}",
+    urlCarriesProblemNumber: true,
+    usesStandardIo: true,
+    parseProblemId: (url) => url.pathname.match(/\/problem\/(\d+)/)?.[1]
+  },
+  PROGRAMMERS: {
+    host: /(^|\.)programmers\.co\.kr$/i,
+    problemNumberPattern: /^\d+$/,
+    problemNumberExample: "42576",
+    urlExample: "https://school.programmers.co.kr/learn/courses/30/lessons/{문제번호}",
+    urlCarriesProblemNumber: true,
+    usesStandardIo: false,
+    parseProblemId: (url) => url.pathname.match(/\/lessons\/(\d+)/)?.[1]
+  },
+  CODEFORCES: {
+    host: /(^|\.)codeforces\.com$/i,
+    problemNumberPattern: /^\d+[A-Z]\d?$/,
+    problemNumberExample: "1850C",
+    urlExample: "https://codeforces.com/problemset/problem/{콘테스트번호}/{인덱스}",
+    urlCarriesProblemNumber: true,
+    usesStandardIo: true,
+    parseProblemId: (url) => {
+      const match = url.pathname.match(/\/(?:problemset\/problem\/(\d+)|(?:contest|gym)\/(\d+)\/problem)\/([A-Za-z]\d?)\/?$/);
+      return match ? `${match[1] ?? match[2]}${match[3].toUpperCase()}` : undefined;
+    }
+  },
+  LEETCODE: {
+    host: /(^|\.)leetcode\.com$/i,
+    problemNumberPattern: /^[a-z0-9]+(-[a-z0-9]+)*$/,
+    problemNumberExample: "two-sum",
+    urlExample: "https://leetcode.com/problems/{slug}/",
+    urlCarriesProblemNumber: true,
+    usesStandardIo: false,
+    parseProblemId: (url) => url.pathname.match(/^\/problems\/([a-z0-9-]+)/i)?.[1]?.toLowerCase()
+  },
+  SWEA: {
+    host: /(^|\.)swexpertacademy\.com$/i,
+    problemNumberPattern: /^\d+$/,
+    problemNumberExample: "1954",
+    urlExample: "https://swexpertacademy.com/main/code/problem/problemDetail.do?contestProbId={문제ID}",
+    urlCarriesProblemNumber: false,
+    usesStandardIo: true,
+    parseProblemId: (url) => url.searchParams.get("contestProbId") ?? undefined
+  },
+  SOFTEER: {
+    host: /(^|\.)softeer\.ai$/i,
+    problemNumberPattern: /^\d+$/,
+    problemNumberExample: "6288",
+    urlExample: "https://softeer.ai/practice/{문제번호}",
+    urlCarriesProblemNumber: true,
+    usesStandardIo: true,
+    parseProblemId: (url) => url.pathname.match(/\/practice\/(\d+)/)?.[1]
+  }
+};
+
+export function getSiteRule(site: SupportedSite): SiteRule {
+  return SITE_RULES[site];
+}
+
+export function isSiteHost(site: SupportedSite, rawUrl: string): boolean {
+  try {
+    return SITE_RULES[site].host.test(new URL(rawUrl).hostname);
+  } catch {
+    return false;
+  }
+}
+
+// Returns the problem id encoded in a problem page URL of the given site, or undefined for any other URL.
+export function extractProblemIdFromUrl(site: SupportedSite, rawUrl: string): string | undefined {
+  try {
+    const url = new URL(rawUrl);
+    if (!SITE_RULES[site].host.test(url.hostname)) return undefined;
+    return SITE_RULES[site].parseProblemId(url);
+  } catch {
+    return undefined;
+  }
+}
+
+export function siteDisplayName(site: SupportedSite): string {
+  switch (site) {
+    case "PROGRAMMERS":
+      return "프로그래머스";
+    case "CODEFORCES":
+      return "Codeforces";
+    case "LEETCODE":
+      return "LeetCode";
+    case "SWEA":
+      return "SW Expert Academy";
+    case "SOFTEER":
+      return "Softeer";
+    case "BOJ":
+    default:
+      return "백준";
+  }
+}
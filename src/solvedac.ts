@@ -0,0 +1,110 @@
+import { optionalEnv } from "./env.js";
+import type { CrawledProblem, SolvedAcInfo } from "./types.js";
+
+const DEFAULT_SOLVED_AC_API_BASE_URL = "https://solved.ac/api/v3";
+const TIER_GROUPS = ["Bronze", "Silver", "Gold", "Platinum", "Diamond", "Ruby"];
+const TIER_STEPS = ["V", "IV", "III", "II", "I"];
+
+interface SolvedAcProblemResponse {
+  problemId: number;
+  titleKo?: string;
+  level?: number;
+  acceptedUserCount?: number;
+  tags?: Array<{
+    key: string;
+    displayNames?: Array<{ language: string; name: string }>;
+  }>;
+}
+
+export interface SolvedAcProblem {
+  title?: string;
+  info: SolvedAcInfo;
+}
+
+export interface SolvedAcClient {
+  getProblem(problemId: string): Promise<SolvedAcProblem | null>;
+}
+
+export function toTierName(level: number): string {
+  if (!Number.isInteger(level) || level <= 0 || level > 30) return "Unrated";
+  const group = TIER_GROUPS[Math.floor((level - 1) / 5)];
+  const step = TIER_STEPS[(level - 1) % 5];
+  return `${group} ${step}`;
+}
+
+export class HttpSolvedAcClient implements SolvedAcClient {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly timeoutMs: number
+  ) {}
+
+  async getProblem(problemId: string): Promise<SolvedAcProblem | null> {
+    if (!/^\d+$/.test(problemId)) return null;
+
+    const response = await fetch(`${this.baseUrl}/problem/show?problemId=${problemId}`, {
+      headers: { accept: "application/json" },
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to fetch solved.ac problem: ${response.status}`);
+    }
+
+    const data = (await response.json()) as SolvedAcProblemResponse;
+    const level = Number(data.level ?? 0);
+    const tags = (data.tags ?? [])
+      .map((tag) => tag.displayNames?.find((name) => name.language === "ko")?.name ?? tag.key)
+      .filter(Boolean);
+
+    return {
+      title: data.titleKo?.trim() || undefined,
+      info: {
+        level,
+        tier: toTierName(level),
+        tags,
+        acceptedUserCount: Number(data.acceptedUserCount ?? 0)
+      }
+    };
+  }
+}
+
+export function createSolvedAcClient(): SolvedAcClient {
+  const baseUrl = (optionalEnv("SOLVED_AC_API_BASE_URL") ?? DEFAULT_SOLVED_AC_API_BASE_URL).replace(/\/$/, "");
+  const timeoutMs = Number(optionalEnv("SOLVED_AC_TIMEOUT_MS") ?? "5000");
+  return new HttpSolvedAcClient(baseUrl, Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : 5000);
+}
+
+export interface SolvedAcEnrichOptions {
+  client?: SolvedAcClient;
+  // Set for placeholder problems (e.g. the 403 fallback) whose title was not crawled.
+  replaceTitle?: boolean;
+}
+
+export async function enrichWithSolvedAc(
+  problem: CrawledProblem,
+  problemNumber: string,
+  options: SolvedAcEnrichOptions = {}
+): Promise<CrawledProblem> {
+  const client = options.client ?? createSolvedAcClient();
+  let solved: SolvedAcProblem | null;
+  try {
+    solved = await client.getProblem(problemNumber);
+  } catch (error) {
+    console.error("solved.ac enrichment failed", {
+      problemNumber,
+      message: error instanceof Error ? error.message : String(error)
+    });
+    return problem;
+  }
+  if (!solved) return problem;
+
+  const classification = [...new Set([...problem.classification, ...solved.info.tags])];
+  const shouldReplaceTitle = options.replaceTitle || problem.title.startsWith("[Unknown]");
+
+  return {
+    ...problem,
+    title: shouldReplaceTitle ? solved.title ?? problem.title : problem.title,
+    classification,
+    solvedAc: solved.info
+  };
+}
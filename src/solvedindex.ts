@@ -0,0 +1,171 @@
+export const DEFAULT_SOLVED_INDEX_PATH = "SOLVED.md";
+
+const SECTION_START_MARKER = "<!-- ct-review:solved-index:start -->";
+const SECTION_END_MARKER = "<!-- ct-review:solved-index:end -->";
+const DATA_MARKER_PREFIX = "<!-- ct-review:solved-index:data ";
+const DATA_MARKER_SUFFIX = " -->";
+const UNTAGGED_LABEL = "분류 없음";
+
+export interface SolvedEntry {
+  site: string;
+  number: string;
+  title: string;
+  tags: string[];
+  language?: string;
+  author?: string;
+  date?: string;
+  folder: string;
+  // Blob SHA of the README the entry was read from; an unchanged README is not fetched again.
+  readmeSha?: string;
+}
+
+export interface ParsedProblemReadme {
+  title?: string;
+  number?: string;
+  tags: string[];
+  submittedAt?: string;
+}
+
+function readSection(content: string, heading: string): string | undefined {
+  const match = content.match(new RegExp(`^###\\s*${heading}\\s*\\n+([^\\n]+)`, "m"));
+  const value = match?.[1].trim();
+  return value && value !== "N/A" ? value : undefined;
+}
+
+// Reads the header both README formats share: `# [사이트 or 티어] 제목 - 번호`, `### 분류`, `### 제출 일자`.
+export function parseProblemReadme(content: string): ParsedProblemReadme {
+  const header = content.match(/^#\s*\[[^\]]*\]\s*(.+?)\s+-\s+(\S+)\s*$/m);
+  const tags = (readSection(content, "분류") ?? "")
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter((tag) => tag && tag !== "Empty");
+
+  return {
+    title: header?.[1].trim(),
+    number: header?.[2].trim(),
+    tags,
+    submittedAt: readSection(content, "제출 일자")
+  };
+}
+
+// `2024년 1월 2일 13:04:05` (BaekjoonHub) and ISO timestamps are shown as `2024-01-02`; anything else as written.
+export function formatSolvedDate(raw: string | undefined): string | undefined {
+  if (!raw) return undefined;
+  const pad = (value: string | number) => String(value).padStart(2, "0");
+  const korean = raw.match(/(\d{4})년\s*(\d{1,2})월\s*(\d{1,2})일/);
+  if (korean) return `${korean[1]}-${pad(korean[2])}-${pad(korean[3])}`;
+
+  const timestamp = Date.parse(raw);
+  if (Number.isNaN(timestamp)) return raw;
+  const kst = new Date(timestamp + 9 * 60 * 60 * 1000);
+  return `${kst.getUTCFullYear()}-${pad(kst.getUTCMonth() + 1)}-${pad(kst.getUTCDate())}`;
+}
+
+function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function toRelativeLink(folder: string): string {
+  return `./${folder.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+function compareEntries(a: SolvedEntry, b: SolvedEntry): number {
+  return a.number.localeCompare(b.number, undefined, { numeric: true }) || a.title.localeCompare(b.title);
+}
+
+function groupBy(entries: SolvedEntry[], keysOf: (entry: SolvedEntry) => string[]): Array<[string, SolvedEntry[]]> {
+  const groups = new Map<string, SolvedEntry[]>();
+  for (const entry of entries) {
+    for (const key of keysOf(entry)) {
+      groups.set(key, [...(groups.get(key) ?? []), entry]);
+    }
+  }
+  return [...groups.entries()]
+    .map(([key, items]): [string, SolvedEntry[]] => [key, [...items].sort(compareEntries)])
+    .sort(([keyA, itemsA], [keyB, itemsB]) => itemsB.length - itemsA.length || keyA.localeCompare(keyB));
+}
+
+function buildSiteTable(entries: SolvedEntry[]): string {
+  const rows = entries.map((entry) =>
+    [
+      `[${escapeTableCell(entry.number)}](${toRelativeLink(entry.folder)})`,
+      escapeTableCell(entry.title),
+      escapeTableCell(entry.tags.join(", ") || "-"),
+      entry.language ?? "-",
+      entry.author ? `@${entry.author}` : "-",
+      entry.date ?? "-"
+    ].join(" | ")
+  );
+  return ["| 번호 | 제목 | 분류 | 언어 | 작성자 | 날짜 |", "| --- | --- | --- | --- | --- | --- |", ...rows.map((row) => `| ${row} |`)].join(
+    "\n"
+  );
+}
+
+export function buildSolvedIndexSection(entries: SolvedEntry[]): string {
+  const lines = [
+    SECTION_START_MARKER,
+    "> 이 목록은 기본 브랜치에 반영될 때마다 저장소의 문제 폴더를 기준으로 다시 생성됩니다. 표시된 영역 안을 직접 수정하면 다음 갱신 때 덮어씁니다.",
+    "",
+    `총 **${entries.length}**문제`
+  ];
+
+  if (entries.length > 0) {
+    lines.push("", "## 사이트별");
+    for (const [site, items] of groupBy(entries, (entry) => [entry.site])) {
+      lines.push("", `### ${site} (${items.length})`, "", buildSiteTable(items));
+    }
+
+    lines.push("", "## 알고리즘 분류별");
+    for (const [tag, items] of groupBy(entries, (entry) => (entry.tags.length > 0 ? entry.tags : [UNTAGGED_LABEL]))) {
+      lines.push("", `### ${tag} (${items.length})`, "");
+      lines.push(...items.map((entry) => `- [${entry.site} ${entry.number} · ${entry.title}](${toRelativeLink(entry.folder)})`));
+    }
+  }
+
+  lines.push("", encodeSolvedEntries(entries), SECTION_END_MARKER);
+  return lines.join("\n");
+}
+
+// `>` only appears inside JSON strings, so escaping it keeps `-->` from closing the comment early.
+function encodeSolvedEntries(entries: SolvedEntry[]): string {
+  return `${DATA_MARKER_PREFIX}${JSON.stringify(entries).replace(/>/g, "\\u003e")}${DATA_MARKER_SUFFIX}`;
+}
+
+function isSolvedEntry(value: unknown): value is SolvedEntry {
+  const entry = value as Partial<SolvedEntry> | null;
+  return (
+    typeof entry?.site === "string" &&
+    typeof entry.number === "string" &&
+    typeof entry.title === "string" &&
+    typeof entry.folder === "string" &&
+    Array.isArray(entry.tags) &&
+    entry.tags.every((tag) => typeof tag === "string")
+  );
+}
+
+// Entries saved by the previous run; a missing or unreadable data comment just means everything is read again.
+export function readSolvedEntries(existing: string | null): SolvedEntry[] {
+  const start = existing?.indexOf(DATA_MARKER_PREFIX) ?? -1;
+  if (!existing || start === -1) return [];
+  const end = existing.indexOf(DATA_MARKER_SUFFIX, start + DATA_MARKER_PREFIX.length);
+  if (end === -1) return [];
+
+  try {
+    const parsed: unknown = JSON.parse(existing.slice(start + DATA_MARKER_PREFIX.length, end));
+    return Array.isArray(parsed) ? parsed.filter(isSolvedEntry) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Only the marked section is replaced, so the index can also live inside a hand-written README.
+export function mergeSolvedIndex(existing: string | null, section: string): string {
+  if (existing === null) return `# 풀이 목록\n\n${section}\n`;
+
+  const start = existing.indexOf(SECTION_START_MARKER);
+  const end = existing.indexOf(SECTION_END_MARKER, start);
+  if (start !== -1 && end !== -1) {
+    return `${existing.slice(0, start)}${section}${existing.slice(end + SECTION_END_MARKER.length)}`;
+  }
+  return `${existing.replace(/\s*$/, "")}\n\n${section}\n`;
+}
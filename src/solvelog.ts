@@ -0,0 +1,61 @@
+export const DEFAULT_SOLVE_LOG_PATH = ".github/ct-review/solves.jsonl";
+
+export interface SolveRecord {
+  pullNumber: number;
+  author: string;
+  site: string;
+  problemNumber: string;
+  title?: string;
+  language?: string;
+  folder?: string;
+  timeComplexity?: string;
+  spaceComplexity?: string;
+  submittedAt?: string;
+  openedAt: string;
+  mergedAt: string;
+}
+
+export interface ReviewComplexity {
+  time?: string;
+  space?: string;
+}
+
+function readComplexity(section: string, label: string): string | undefined {
+  const value = section.match(new RegExp(`^- ${label} 복잡도:\\s*(.+)$`, "m"))?.[1].trim();
+  return value && value !== "O(unknown)" ? value : undefined;
+}
+
+// Multi-problem reviews are split into `# 1. ...` sections in problem order; a single review is one section.
+export function parseReviewComplexities(reviewBody: string): ReviewComplexity[] {
+  const sections = /^# \d+\. /m.test(reviewBody) ? reviewBody.split(/^# \d+\. /m).slice(1) : [reviewBody];
+  return sections.map((section) => ({
+    time: readComplexity(section, "시간"),
+    space: readComplexity(section, "공간")
+  }));
+}
+
+function parseSolveLine(line: string): SolveRecord | undefined {
+  try {
+    const parsed: unknown = JSON.parse(line);
+    // `null`, numbers and arrays are valid JSON too, but not records.
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? (parsed as SolveRecord) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function recordKey(record: SolveRecord): string {
+  return `${record.pullNumber}:${record.site}:${record.problemNumber}`;
+}
+
+// A redelivered merge event replaces the records of that PR instead of appending duplicates.
+// Lines that do not parse are kept as-is so a hand edit never silently drops history.
+export function appendSolveRecords(existing: string | null, records: SolveRecord[]): string {
+  const keys = new Set(records.map(recordKey));
+  const kept = (existing ?? "").split("\n").filter((line) => {
+    if (!line.trim()) return false;
+    const record = parseSolveLine(line);
+    return !record || !keys.has(recordKey(record));
+  });
+  return [...kept, ...records.map((record) => JSON.stringify(record))].join("\n") + "\n";
+}
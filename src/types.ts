@@ -1,7 +1,21 @@
-export type SupportedSite = "BOJ" | "PROGRAMMERS";
+export type SupportedSite =
+  | "BOJ"
+  | "PROGRAMMERS"
+  | "CODEFORCES"
+  | "LEETCODE"
+  | "SWEA"
+  | "SOFTEER";
+
+export interface ProblemStatement {
+  title?: string;
+  description: string;
+  input?: string;
+  output?: string;
+}
 
 export interface PrProblemMetadata {
   site?: SupportedSite;
+  siteLabel?: string;
   problemNumber?: string;
   problemUrl?: string;
   language?: string;
@@ -9,13 +23,36 @@ export interface PrProblemMetadata {
   runtime?: string;
   memory?: string;
   submittedAt?: string;
+  status?: string;
+  forceRefresh?: boolean;
+  sourcePath?: string;
+  statement?: ProblemStatement;
+}
+
+export interface ProblemSample {
+  input: string;
+  output: string;
+  explanation?: string;
+}
+
+export interface SolvedAcInfo {
+  level: number;
+  tier: string;
+  tags: string[];
+  acceptedUserCount: number;
 }
 
 export interface CrawledProblem {
   title: string;
+  displayId?: string;
+  difficulty?: string;
   problemUrl: string;
   classification: string[];
   descriptionHtml: string;
   inputHtml: string;
   outputHtml: string;
+  notesHtml?: string;
+  contentFormat?: "html" | "markdown";
+  samples: ProblemSample[];
+  solvedAc?: SolvedAcInfo;
 }
@@ -0,0 +1,131 @@
+import { matchLanguageProfile, SUPPORTED_LANGUAGES, type SupportedReviewLanguage } from "./languages.js";
+import { parseStructuredMetadata, type TemplateFieldError } from "./parser.js";
+import { extractProblemIdFromUrl, getSiteRule, isSiteHost, SUPPORTED_SITES } from "./sites.js";
+import type { PrProblemMetadata, SupportedSite } from "./types.js";
+
+export type TemplateField = "Site" | "Problem Number" | "URL" | "Language";
+
+export interface TemplateFieldReport {
+  field: TemplateField;
+  detected?: string;
+  expected: string;
+  issues: string[];
+}
+
+// Narrows what a repository accepts; defaults to everything the app supports.
+export interface TemplateValidationOptions {
+  sites?: SupportedSite[];
+  languages?: SupportedReviewLanguage[];
+}
+
+export interface TemplateValidationResult {
+  valid: boolean;
+  fields: TemplateFieldReport[];
+  structuredErrors: TemplateFieldError[];
+  usesStructuredBlock: boolean;
+}
+
+function validateSite(metadata: PrProblemMetadata, sites: SupportedSite[]): TemplateFieldReport {
+  const report: TemplateFieldReport = {
+    field: "Site",
+    detected: metadata.site ?? metadata.siteLabel,
+    expected: sites.join(" | "),
+    issues: []
+  };
+
+  if (metadata.site && !sites.includes(metadata.site)) {
+    report.issues.push("이 저장소에서 사용하지 않는 사이트입니다. (.github/ct-review.yml의 sites 참고)");
+  } else if (!metadata.site && !metadata.siteLabel) {
+    report.issues.push("Site가 비어 있습니다.");
+  } else if (!metadata.site && !metadata.statement) {
+    report.issues.push(`알 수 없는 사이트 값 "${metadata.siteLabel}" 입니다. 지원하지 않는 사이트는 문제 본문(Problem Statement)을 함께 붙여넣어 주세요.`);
+  }
+  return report;
+}
+
+function validateProblemNumber(metadata: PrProblemMetadata): TemplateFieldReport {
+  const rule = metadata.site ? getSiteRule(metadata.site) : undefined;
+  const report: TemplateFieldReport = {
+    field: "Problem Number",
+    detected: metadata.problemNumber,
+    expected: rule ? `예) ${rule.problemNumberExample}` : "문제 번호",
+    issues: []
+  };
+
+  if (!metadata.problemNumber) {
+    report.issues.push("Problem Number가 비어 있습니다.");
+  } else if (rule && !rule.problemNumberPattern.test(metadata.problemNumber)) {
+    report.issues.push(`${metadata.site} 문제 번호 형식이 아닙니다. (예: ${rule.problemNumberExample})`);
+  }
+  return report;
+}
+
+function validateUrl(metadata: PrProblemMetadata): TemplateFieldReport {
+  const rule = metadata.site ? getSiteRule(metadata.site) : undefined;
+  const report: TemplateFieldReport = {
+    field: "URL",
+    detected: metadata.problemUrl,
+    expected: rule ? `${rule.urlExample} (선택)` : "문제 링크 (선택)",
+    issues: []
+  };
+
+  if (!metadata.problemUrl || !metadata.site || !rule) return report;
+
+  if (!isSiteHost(metadata.site, metadata.problemUrl)) {
+    report.issues.push(`URL 호스트가 Site(${metadata.site})와 맞지 않습니다.`);
+    return report;
+  }
+
+  const urlProblemId = extractProblemIdFromUrl(metadata.site, metadata.problemUrl);
+  if (!urlProblemId) {
+    report.issues.push("문제 페이지 URL 형식이 아닙니다.");
+    return report;
+  }
+
+  const problemNumber = metadata.problemNumber?.toLowerCase();
+  if (rule.urlCarriesProblemNumber && problemNumber && urlProblemId.toLowerCase() !== problemNumber) {
+    report.issues.push(`URL의 문제 번호(${urlProblemId})와 Problem Number(${metadata.problemNumber})가 다릅니다.`);
+  }
+  return report;
+}
+
+function validateLanguage(metadata: PrProblemMetadata, languages: SupportedReviewLanguage[]): TemplateFieldReport {
+  const report: TemplateFieldReport = {
+    field: "Language",
+    detected: metadata.language,
+    expected: languages.join(" | "),
+    issues: []
+  };
+
+  const profile = metadata.language ? matchLanguageProfile(metadata.language) : undefined;
+  if (!metadata.language) {
+    report.issues.push("Language가 비어 있습니다.");
+  } else if (!profile) {
+    report.issues.push(`지원하지 않는 언어 "${metadata.language}" 입니다.`);
+  } else if (!languages.includes(profile.name)) {
+    report.issues.push("이 저장소에서 사용하지 않는 언어입니다. (.github/ct-review.yml의 languages 참고)");
+  }
+  return report;
+}
+
+export function validateTemplate(
+  body: string | null | undefined,
+  metadata: PrProblemMetadata,
+  options: TemplateValidationOptions = {}
+): TemplateValidationResult {
+  const structured = parseStructuredMetadata(body);
+  const fields = [
+    validateSite(metadata, options.sites ?? SUPPORTED_SITES),
+    validateProblemNumber(metadata),
+    validateUrl(metadata),
+    validateLanguage(metadata, options.languages ?? SUPPORTED_LANGUAGES)
+  ];
+  const structuredErrors = structured?.errors ?? [];
+
+  return {
+    valid: structuredErrors.length === 0 && fields.every((field) => field.issues.length === 0),
+    fields,
+    structuredErrors,
+    usesStructuredBlock: Boolean(structured)
+  };
+}
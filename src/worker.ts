@@ -1,34 +1,134 @@
 import { createAppAuth } from "@octokit/auth-app";
 import { Octokit } from "@octokit/rest";
-import { generateAiReview } from "./ai/index.js";
+import { generateAiAnswerRepair, generateAiHints, generateAiReply, generateAiReview } from "./ai/index.js";
+import type { AiHintResult } from "./ai/types.js";
+import { COMMAND_USAGE, HINT_MODE_LABEL, SKIP_SYNC_LABEL, type SlashCommand } from "./commands.js";
+import {
+  buildConfigErrorNotice,
+  defaultRepoConfig,
+  parseRepoConfig,
+  REPO_CONFIG_PATH,
+  type LoadedRepoConfig,
+  type RepoConfig
+} from "./config.js";
 import { crawlProblem } from "./crawlers.js";
 import { ensurePrivateKeyLoaded, requireEnv, resolveGithubApiBaseUrl } from "./env.js";
 import {
+  addIssueCommentReaction,
+  addPullLabel,
   buildChangedCodePrompt,
+  type ChangedFileForReview,
+  type CheckConclusion,
+  commitFilesToBranch,
   commitFilesToPrBranch,
   createInlineReview,
+  createPullComment,
+  createReviewCheckRun,
+  getLastCommitForPath,
+  type InlineReviewComment,
+  isRepositoryCollaborator,
+  listChangedCodePaths,
+  listPullFilePaths,
+  listRepositoryFiles,
+  loadAiReviewCommentBody,
+  loadBotReviewThread,
   loadChangedFilesForReview,
+  loadCodeFile,
+  loadLastReviewedSha,
+  loadMetadataHints,
+  loadRepositoryTextFile,
   loadPrimaryCode,
+  loadReviewDelta,
   removeTemplateCheckComment,
+  replyToReviewThread,
+  retryOnBranchConflict,
+  selectReviewedSha,
   type PullRequestContext,
+  type ReviewDelta,
+  type ReviewDeltaResult,
+  updateReviewCheckRun,
   upsertAiReviewComment,
+  upsertCommandHelpComment,
   upsertFileLevelReviewComment,
   upsertTemplateCheckComment,
   upsertTemplateCheckCommentForIssue
 } from "./github.js";
+import {
+  inferMetadata,
+  matchSourceFiles,
+  type InferableField,
+  type InferenceSource,
+  type InferredField,
+  type MetadataInference
+} from "./inference.js";
 import type { WorkerJob } from "./jobs.js";
-import { buildProblemMarkdown, sanitizeProblemTitle } from "./markdown.js";
-import { hasRequiredTemplateFields, parsePrBody } from "./parser.js";
-import type { SupportedSite } from "./types.js";
+import {
+  formatJudgeReport,
+  isAcceptedJudgeResult,
+  isJudgeConfigured,
+  judgeSubmission,
+  summarizeJudgeForPrompt,
+  type JudgeResult
+} from "./judge.js";
+import { buildProblemMarkdown } from "./markdown.js";
+import { isWorkInProgressStatus, parsePrProblems } from "./parser.js";
+import {
+  buildGeneratedFileMatcher,
+  buildPathValues,
+  DEFAULT_PATH_TEMPLATES,
+  matchPathTemplate,
+  type PathValues,
+  renderPathTemplate,
+  siteFromPathValues
+} from "./paths.js";
+import {
+  matchLanguageProfileByPath,
+  resolveLanguageProfile,
+  type LanguageProfile,
+  type SupportedReviewLanguage
+} from "./languages.js";
+import { getSiteRule, siteDisplayName } from "./sites.js";
+import { appendSolveRecords, parseReviewComplexities, type SolveRecord } from "./solvelog.js";
+import {
+  buildSolvedIndexSection,
+  formatSolvedDate,
+  mergeSolvedIndex,
+  parseProblemReadme,
+  readSolvedEntries,
+  type SolvedEntry
+} from "./solvedindex.js";
+import type { CrawledProblem, PrProblemMetadata } from "./types.js";
+import { validateTemplate, type TemplateField, type TemplateValidationResult } from "./validation.js";
 
 const REQUIRED_TEMPLATE_GUIDE = `
 PR 본문에 아래 필드를 채워주세요.
 
-- Site: BOJ | PROGRAMMERS
-- Problem Number: 예) 10546
-- URL: BOJ는 https://www.acmicpc.net/problem/{문제번호}, PROGRAMMERS는 https://school.programmers.co.kr/learn/courses/30/lessons/{문제번호}
-- Language: Java
+- Site: BOJ | PROGRAMMERS | CODEFORCES | LEETCODE | SWEA | SOFTEER
+- Problem Number: 예) 10546 (CODEFORCES는 콘테스트 번호 + 문제 인덱스, 예) 1850C / LEETCODE는 URL의 slug, 예) two-sum)
+- URL: BOJ는 https://www.acmicpc.net/problem/{문제번호}, PROGRAMMERS는 https://school.programmers.co.kr/learn/courses/30/lessons/{문제번호}, CODEFORCES는 https://codeforces.com/problemset/problem/{콘테스트번호}/{인덱스}, LEETCODE는 https://leetcode.com/problems/{slug}/, SWEA는 contestProbId가 포함된 문제 링크, SOFTEER는 https://softeer.ai/practice/{문제번호}
+- Language: Java | Python | C++
 - ASK > 피드백 요청할 부분: 예) 시간복잡도 개선 관점으로 집중 리뷰
+- Status: WIP (선택, 아직 풀이 중이면 모범 답안 대신 힌트만 받습니다)
+
+위 항목 대신 \`\`\`yaml ct-review 코드 블록으로 메타데이터를 적을 수도 있습니다.
+
+여러 문제를 올린다면 Site부터 Language까지의 묶음을 문제마다 반복하거나 | Site | Problem Number | ... | 표로 적어주세요.
+
+크롤링이 막혔거나 지원하지 않는 사이트라면 \`<details><summary>Problem Statement</summary> ... </details>\` 블록에 문제 본문(### 입력 / ### 출력 포함)을 붙여넣어 주세요.
+`;
+
+const STRUCTURED_TEMPLATE_EXAMPLE = `
+\`\`\`\`markdown
+\`\`\`yaml ct-review
+site: BOJ
+problem: 1000
+url: https://www.acmicpc.net/problem/1000
+language: Java
+ask:
+  - 시간복잡도 개선 관점으로 집중 리뷰
+  - 변수명 리뷰
+\`\`\`
+\`\`\`\`
 `;
 
 interface SqsRecordLike {
@@ -44,76 +144,127 @@ interface BatchResponseLike {
   batchItemFailures: Array<{ itemIdentifier: string }>;
 }
 
+interface LambdaContextLike {
+  getRemainingTimeInMillis(): number;
+}
+
 const octokitCache = new Map<number, Promise<Octokit>>();
 
-function buildFolderName(problemNumber: string, title: string): string {
-  const sanitizedTitle = sanitizeProblemTitle(title) || "문제";
-  return `${problemNumber}.${sanitizedTitle}`;
-}
+type PullRequestData = Awaited<ReturnType<Octokit["rest"]["pulls"]["get"]>>["data"];
 
-function buildSiteRootFolder(site: SupportedSite): string {
-  return site === "PROGRAMMERS" ? "프로그래머스" : "백준";
+interface TemplateCheck {
+  blocking: boolean;
+  body: string;
 }
 
-type SupportedReviewLanguage = "Java" | "Python" | "C++";
-
-interface LanguageProfile {
-  name: SupportedReviewLanguage;
-  codeFence: "java" | "python" | "cpp";
-  extension: ".java" | ".py" | ".cpp";
-  fallbackTemplate: string;
+function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
 }
 
-function resolveLanguageProfile(rawLanguage?: string): LanguageProfile {
-  const raw = (rawLanguage || "").trim().toLowerCase();
+const INFERRED_FIELD_LABELS: Record<InferableField, TemplateField> = {
+  site: "Site",
+  problemNumber: "Problem Number",
+  problemUrl: "URL",
+  language: "Language"
+};
+
+const INFERENCE_SOURCE_LABELS: Record<InferenceSource, string> = {
+  body: "PR 본문의 문제 링크",
+  files: "변경 파일 경로",
+  branch: "브랜치 이름",
+  commits: "커밋 메시지"
+};
 
-  if (/python/.test(raw)) {
-    return {
-      name: "Python",
-      codeFence: "python",
-      extension: ".py",
-      fallbackTemplate: `import sys
+function buildInferredSection(inferred: InferredField[]): string {
+  const rows = inferred.map(
+    (item) =>
+      `| ${INFERRED_FIELD_LABELS[item.field]} | \`${escapeTableCell(item.value)}\` | ${INFERENCE_SOURCE_LABELS[item.source]} |`
+  );
+  return [
+    "PR 본문에 없는 값을 아래처럼 추론했습니다. 다르다면 PR 본문에 직접 적어주세요.",
+    "",
+    "| 필드 | 추론한 값 | 출처 |",
+    "| --- | --- | --- |",
+    ...rows
+  ].join("\n");
+}
 
-def solve() -> None:
-    # TODO: solve
-    pass
+function buildValidationTable(validation: TemplateValidationResult): string {
+  const rows = validation.fields.map((report) => {
+    const detected = report.detected ? `\`${escapeTableCell(report.detected)}\`` : "-";
+    const status = report.issues.length > 0 ? `❌ ${report.issues.map(escapeTableCell).join("<br>")}` : "✅";
+    return `| ${report.field} | ${detected} | ${escapeTableCell(report.expected)} | ${status} |`;
+  });
+  return ["| 필드 | 감지된 값 | 기대 값 | 상태 |", "| --- | --- | --- | --- |", ...rows].join("\n");
+}
 
-if __name__ == "__main__":
-    solve()
-`
-    };
+function buildTemplateCheckBody(
+  body: string | null | undefined,
+  problems: MetadataInference[],
+  config: RepoConfig
+): TemplateCheck | null {
+  const options = { sites: config.sites, languages: config.languages };
+  const validations = problems.map(({ metadata }) => validateTemplate(body, metadata, options));
+  const inferred = problems.length === 1 ? problems[0].inferred : [];
+  if (validations.every((validation) => validation.valid)) {
+    return inferred.length > 0 ? { blocking: false, body: `\n${buildInferredSection(inferred)}` } : null;
   }
 
-  if (/c\+\+|cpp|g\+\+|clang\+\+/.test(raw)) {
-    return {
-      name: "C++",
-      codeFence: "cpp",
-      extension: ".cpp",
-      fallbackTemplate: `#include <bits/stdc++.h>
-using namespace std;
+  const sections = ["PR 템플릿 검증 결과입니다. ❌ 표시된 항목을 수정해주세요."];
+  if (validations.length === 1) {
+    sections.push(buildValidationTable(validations[0]));
+  } else {
+    validations.forEach((validation, index) => {
+      if (validation.fields.some((report) => report.issues.length > 0)) {
+        sections.push(`#### 문제 ${index + 1}\n\n${buildValidationTable(validation)}`);
+      }
+    });
+  }
 
-int main() {
-    ios::sync_with_stdio(false);
-    cin.tie(nullptr);
+  const [{ structuredErrors, usesStructuredBlock }] = validations;
+  if (structuredErrors.length > 0) {
+    const lines = structuredErrors.map((issue) => `- \`${issue.field}\`: ${issue.message}`);
+    sections.push(`\`ct-review\` YAML 블록 오류:\n\n${lines.join("\n")}`);
+  }
+  if (inferred.length > 0) sections.push(buildInferredSection(inferred));
 
-    // TODO: solve
-    return 0;
+  sections.push(usesStructuredBlock ? `예시:\n${STRUCTURED_TEMPLATE_EXAMPLE}` : REQUIRED_TEMPLATE_GUIDE);
+  return { blocking: true, body: `\n${sections.join("\n\n")}` };
 }
-`
-    };
-  }
 
-  return {
-    name: "Java",
-    codeFence: "java",
-    extension: ".java",
-    fallbackTemplate: `class Main {
-    public static void main(String[] args) throws Exception {
-        // TODO: solve
-    }
+async function loadRepoConfig(octokit: Octokit, owner: string, repo: string, ref: string): Promise<LoadedRepoConfig> {
+  const source = await loadRepositoryTextFile(
+    octokit as unknown as PullRequestContext["octokit"],
+    owner,
+    repo,
+    ref,
+    REPO_CONFIG_PATH
+  );
+  if (source === null) return { config: defaultRepoConfig(), errors: [] };
+
+  const loaded = parseRepoConfig(source);
+  if (loaded.errors.length > 0) {
+    console.error("Invalid repository config", { owner, repo, errors: loaded.errors });
+  }
+  return loaded;
 }
-`
-  };
+
+async function resolvePullProblems(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pull: { number: number; body?: string | null; head: { ref: string } }
+): Promise<MetadataInference[]> {
+  const problems = parsePrProblems(pull.body);
+  // Branch, path and commit hints cannot tell several problems apart, so only a single problem is inferred.
+  if (problems.length > 1) return problems.map((metadata) => ({ metadata, inferred: [] }));
+
+  const [metadata] = problems;
+  const hasAllFields = Boolean((metadata.site || metadata.siteLabel) && metadata.problemNumber && metadata.language);
+  if (hasAllFields) return [{ metadata, inferred: [] }];
+
+  const hints = await loadMetadataHints(octokit as unknown as PullRequestContext["octokit"], owner, repo, pull);
+  return [inferMetadata(metadata, hints)];
 }
 
 function stripOuterCodeFence(code: string): string {
@@ -292,27 +443,69 @@ function normalizeComplexity(value: string | undefined): string {
   return normalized;
 }
 
+type AnswerVerification =
+  | { status: "verified"; sampleCount: number; repairRounds: number }
+  | { status: "unverified"; reason: string; details?: string };
+
+function formatAnswerVerification(verification: AnswerVerification): string {
+  if (verification.status === "verified") {
+    const repaired = verification.repairRounds > 0 ? ` (실행 오류를 ${verification.repairRounds}회 수정)` : "";
+    return `> ✅ 예제 ${verification.sampleCount}개로 실행 검증됨${repaired}\n`;
+  }
+  const details = verification.details
+    ? `\n<details>\n<summary>실행 결과</summary>\n\n\`\`\`\n${verification.details}\n\`\`\`\n\n</details>\n`
+    : "";
+  return `> ⚠️ 검증되지 않음: ${verification.reason} 제출 전에 직접 확인해주세요.\n${details}`;
+}
+
 function formatAiSummary(
   summaryMarkdown: string,
   timeComplexity: string,
   spaceComplexity: string,
   answerCode: string,
-  codeFence: LanguageProfile["codeFence"]
+  codeFence: LanguageProfile["codeFence"],
+  includeAnswerCode = true,
+  verification?: AnswerVerification
 ): string {
-  const normalizedAnswerCode = normalizeAnswerCodeForDisplay(answerCode, codeFence);
-  return `${summaryMarkdown}
+  const complexity = `${summaryMarkdown}
 
 ## 시간/공간 복잡도 평가
 - 시간 복잡도: ${normalizeComplexity(timeComplexity)}
 - 공간 복잡도: ${normalizeComplexity(spaceComplexity)}
+`;
+  if (!includeAnswerCode) return complexity;
 
+  const normalizedAnswerCode = normalizeAnswerCodeForDisplay(answerCode, codeFence);
+  const badge = verification ? `${formatAnswerVerification(verification)}\n` : "";
+  return `${complexity}
 ## 모범 답안 코드
-\`\`\`${codeFence}
+${badge}\`\`\`${codeFence}
 ${normalizedAnswerCode}
 \`\`\`
 `;
 }
 
+// Hints and counterexamples are folded so the author can open them one at a time.
+function formatHintSummary(hints: AiHintResult): string {
+  const sections = [hints.summaryMarkdown || "현재 풀이에 대한 힌트입니다."];
+  sections.push(
+    `## 단계별 힌트\n\n${hints.hints
+      .map((hint, index) => `<details>\n<summary>힌트 ${index + 1}</summary>\n\n${hint}\n\n</details>`)
+      .join("\n\n")}`
+  );
+  if (hints.counterexamples.length > 0) {
+    sections.push(
+      `## 확인해볼 반례\n\n${hints.counterexamples
+        .map((example, index) => {
+          const expected = example.expectedOutput ? `\n\n기대 출력:\n\`\`\`\n${example.expectedOutput}\n\`\`\`` : "";
+          return `<details>\n<summary>반례 ${index + 1}</summary>\n\n입력:\n\`\`\`\n${example.input}\n\`\`\`${expected}\n\n${example.reason}\n\n</details>`;
+        })
+        .join("\n\n")}`
+    );
+  }
+  return sections.join("\n\n");
+}
+
 function normalizeForCodeComparison(code: string): string {
   return code.replace(/\s+/g, "");
 }
@@ -334,11 +527,242 @@ function buildForcedRewriteAsk(userAsk?: string): string {
   return userAsk?.trim() ? `${userAsk.trim()}\n\n[추가 요구] ${extra}` : extra;
 }
 
+interface PreparedProblem {
+  metadata: PrProblemMetadata;
+  problem: CrawledProblem;
+  problemMarkdown: string;
+  folderName: string;
+  languageProfile: LanguageProfile;
+  sourceCode: string;
+  sourcePath?: string;
+  files: Array<{ path: string; content: string }>;
+}
+
+async function prepareProblem(
+  context: PullRequestContext,
+  metadata: PrProblemMetadata,
+  config: RepoConfig,
+  author: string | undefined,
+  sourcePath?: string
+): Promise<PreparedProblem> {
+  const problem = await crawlProblem(metadata);
+  const problemMarkdown = buildProblemMarkdown(metadata, problem, config.format);
+  const languageProfile = resolveLanguageProfile(metadata.language);
+  const pathValues = buildPathValues(metadata, problem, languageProfile, author, config.format);
+  const readmePath = renderPathTemplate(config.paths.readme, pathValues);
+  const codePath = renderPathTemplate(config.paths.code, pathValues);
+  const folderName = readmePath.split("/").slice(-2, -1)[0] || readmePath;
+  const submittedCode = sourcePath
+    ? await loadCodeFile(context, sourcePath)
+    : await loadPrimaryCode(context, [languageProfile.extension], buildGeneratedFileMatcher(config.paths.code));
+  const sourceCode = submittedCode || languageProfile.fallbackTemplate;
+
+  return {
+    metadata,
+    problem,
+    problemMarkdown,
+    folderName,
+    languageProfile,
+    sourceCode,
+    sourcePath,
+    files: [
+      { path: readmePath, content: problemMarkdown },
+      { path: codePath, content: sourceCode }
+    ]
+  };
+}
+
+function describeProblem(metadata: PrProblemMetadata, prepared?: PreparedProblem): string {
+  const site = metadata.site ? siteDisplayName(metadata.site) : metadata.siteLabel ?? "";
+  const title = prepared ? ` ${prepared.problem.title}` : "";
+  return `${site} ${metadata.problemNumber ?? ""}${title}`.trim();
+}
+
+function describeAiFailure(ai: RepoConfig["ai"]): string {
+  const provider = (ai.provider || process.env.AI_PROVIDER || "gemini").toLowerCase();
+  const model =
+    ai.model ||
+    (provider === "gemini"
+      ? process.env.GEMINI_MODEL || "gemini-2.0-flash"
+      : process.env.OPENAI_MODEL || "gpt-4.1-mini");
+  const timeout =
+    provider === "gemini"
+      ? process.env.GEMINI_TIMEOUT_MS || "15000"
+      : process.env.OPENAI_TIMEOUT_MS || "15000";
+  const hasKey =
+    provider === "gemini"
+      ? Boolean(process.env.GEMINI_API_KEY && process.env.GEMINI_API_KEY.trim().length > 0)
+      : Boolean(process.env.OPENAI_API_KEY && process.env.OPENAI_API_KEY.trim().length > 0);
+
+  return `AI 리뷰를 생성하지 못했습니다. (provider=${provider}, model=${model}, timeoutMs=${timeout}, apiKey=${hasKey ? "set" : "missing"})\nCloudWatch Worker 로그에서 provider 실패 메시지를 확인해주세요.`;
+}
+
+function describeUnjudgeableProblem(prepared: PreparedProblem): string | undefined {
+  const { metadata, problem } = prepared;
+  if (!metadata.site || !getSiteRule(metadata.site).usesStandardIo) return "함수 구현형 문제라 실행하지 않았습니다.";
+  if (problem.samples.length === 0) return "예제 입출력이 없습니다.";
+  return undefined;
+}
+
+// Skipped when nothing was submitted: the fallback template would only "fail" every sample.
+// An unavailable judge (no sandbox deployed, sandbox failure) hides the report instead of posting a notice on every review.
+async function runSampleJudge(prepared: PreparedProblem, config: RepoConfig): Promise<JudgeResult | undefined> {
+  const { problem, languageProfile, sourceCode } = prepared;
+  if (!config.features.judge || !isJudgeConfigured() || describeUnjudgeableProblem(prepared)) return undefined;
+  if (sourceCode === languageProfile.fallbackTemplate || remainingJobBudgetMs() <= 0) return undefined;
+
+  const result = await judgeSubmission(languageProfile, sourceCode, problem.samples, remainingJobBudgetMs());
+  return result.status === "unavailable" ? undefined : result;
+}
+
+// Each failed run is sent back to the model with the compiler/runtime output, at most this many times.
+const ANSWER_REPAIR_ROUNDS = 2;
+// Kept free for posting the summary and inline comments: a job cut off by the Lambda timeout is redelivered
+// by SQS and the whole review is posted a second time.
+const REVIEW_POSTING_RESERVE_MS = 20000;
+// Only used outside Lambda, where the handler gets no context; matches the worker `Timeout` in template.yaml.
+const DEFAULT_JOB_BUDGET_MS = 120000;
+
+let jobDeadline = Date.now() + DEFAULT_JOB_BUDGET_MS;
+
+// Time the current job may still spend on optional work such as answer verification.
+function remainingJobBudgetMs(): number {
+  return jobDeadline - Date.now() - REVIEW_POSTING_RESERVE_MS;
+}
+
+async function verifyAnswerCode(
+  prepared: PreparedProblem,
+  answerCode: string,
+  config: RepoConfig
+): Promise<{ answerCode: string; verification?: AnswerVerification }> {
+  if (!config.features.judge || !isJudgeConfigured()) return { answerCode };
+  const unjudgeable = describeUnjudgeableProblem(prepared);
+  if (unjudgeable) return { answerCode, verification: { status: "unverified", reason: unjudgeable } };
+
+  const { problem, problemMarkdown, languageProfile } = prepared;
+  let code = normalizeAnswerCodeForDisplay(answerCode, languageProfile.codeFence);
+  // A round (sample run plus repair call) is assumed to take about as long as the previous one.
+  let lastRoundMs = 0;
+  for (let round = 0; ; round += 1) {
+    const roundStartedAt = Date.now();
+    if (remainingJobBudgetMs() <= lastRoundMs) {
+      const reason = round > 0 ? `시간 제한으로 ${round}회 수정 후 검증을 중단했습니다.` : "시간 제한으로 실행하지 않았습니다.";
+      return { answerCode: code, verification: { status: "unverified", reason } };
+    }
+
+    let result: JudgeResult;
+    try {
+      result = await judgeSubmission(languageProfile, code, problem.samples, remainingJobBudgetMs());
+    } catch (error) {
+      console.error("Failed to verify answer code", { problem: problem.title, error });
+      return { answerCode: code, verification: { status: "unverified", reason: "예제 실행 중 오류가 발생했습니다." } };
+    }
+
+    if (result.status === "unavailable") {
+      return { answerCode: code, verification: { status: "unverified", reason: result.reason } };
+    }
+    if (isAcceptedJudgeResult(result)) {
+      return {
+        answerCode: code,
+        verification: { status: "verified", sampleCount: problem.samples.length, repairRounds: round }
+      };
+    }
+
+    const failureReport = summarizeJudgeForPrompt(result);
+    const repaired =
+      round < ANSWER_REPAIR_ROUNDS && remainingJobBudgetMs() > lastRoundMs
+        ? await generateAiAnswerRepair(
+            { problemMarkdown, language: languageProfile.name, samples: problem.samples, answerCode: code, failureReport },
+            config.ai
+          )
+        : null;
+    if (!repaired) {
+      return {
+        answerCode: code,
+        verification: {
+          status: "unverified",
+          reason: round > 0 ? `${round}회 수정했지만 예제를 통과하지 못했습니다.` : "예제를 통과하지 못했습니다.",
+          details: failureReport
+        }
+      };
+    }
+    code = normalizeAnswerCodeForDisplay(repaired, languageProfile.codeFence);
+    lastRoundMs = Date.now() - roundStartedAt;
+  }
+}
+
+async function reviewProblem(
+  prBody: string,
+  prepared: PreparedProblem,
+  reviewTargets: ChangedFileForReview[],
+  config: RepoConfig,
+  hintMode = false
+): Promise<{ summaryBody: string; inlineSuggestions: InlineReviewComment[]; conclusion: CheckConclusion }> {
+  const { metadata, problem, problemMarkdown, languageProfile, sourceCode } = prepared;
+  const style = { language: config.review.language, tone: config.review.tone };
+  const judgeResult = await runSampleJudge(prepared, config);
+  const judgeReport = judgeResult ? `${formatJudgeReport(judgeResult)}\n\n` : "";
+  // Failing samples do not block the review, but the check stays neutral so the author takes a look.
+  const conclusion: CheckConclusion =
+    judgeResult && !isAcceptedJudgeResult(judgeResult) ? "neutral" : "success";
+  const input = {
+    problemMarkdown,
+    prBody,
+    language: languageProfile.name,
+    askRequest: metadata.ask,
+    changedCodePrompt: buildChangedCodePrompt(reviewTargets),
+    reviewTargets,
+    samples: problem.samples,
+    judgeSummary: judgeResult ? summarizeJudgeForPrompt(judgeResult) : undefined,
+    style
+  };
+
+  if (hintMode) {
+    const hints = await generateAiHints(input, config.ai);
+    if (!hints) {
+      return { summaryBody: `${judgeReport}${describeAiFailure(config.ai)}`, inlineSuggestions: [], conclusion: "failure" };
+    }
+    return { summaryBody: `${judgeReport}${formatHintSummary(hints)}`, inlineSuggestions: hints.inlineSuggestions, conclusion };
+  }
+
+  let aiReview = await generateAiReview(input, config.ai);
+
+  if (!aiReview) {
+    return { summaryBody: `${judgeReport}${describeAiFailure(config.ai)}`, inlineSuggestions: [], conclusion: "failure" };
+  }
+
+  // If model returns code identical to the submitted code while giving improvements,
+  // request one forced rewrite pass so answer_code reflects suggested changes.
+  const shouldForceRewrite =
+    aiReview.inlineSuggestions.length > 0 && isAnswerCodeTooSimilar(aiReview.answerCode, sourceCode);
+  if (shouldForceRewrite) {
+    const rewritten = await generateAiReview({ ...input, askRequest: buildForcedRewriteAsk(metadata.ask) }, config.ai);
+
+    if (rewritten && !isAnswerCodeTooSimilar(rewritten.answerCode, sourceCode)) {
+      aiReview = rewritten;
+    }
+  }
+
+  const { answerCode, verification } = config.features.answerCode
+    ? await verifyAnswerCode(prepared, aiReview.answerCode, config)
+    : { answerCode: aiReview.answerCode, verification: undefined };
+  const summaryBody = formatAiSummary(
+    aiReview.summaryMarkdown,
+    aiReview.timeComplexity,
+    aiReview.spaceComplexity,
+    answerCode,
+    languageProfile.codeFence,
+    config.features.answerCode,
+    verification
+  );
+  return { summaryBody: `${judgeReport}${summaryBody}`, inlineSuggestions: aiReview.inlineSuggestions, conclusion };
+}
+
 function buildPullRequestContext(
   octokit: Octokit,
   owner: string,
   repo: string,
-  pull: Awaited<ReturnType<Octokit["rest"]["pulls"]["get"]>>["data"]
+  pull: PullRequestData
 ): PullRequestContext {
   return {
     octokit,
@@ -396,10 +820,139 @@ async function getOctokitForInstallation(installationId: number): Promise<Octoki
   return promise;
 }
 
+const SOLVED_INDEX_BATCH_SIZE = 10;
+// READMEs fetched per run; a first run over a large repository finishes the index over the next pushes.
+const SOLVED_INDEX_MAX_READS = 200;
+
+function dirname(path: string): string {
+  return path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+}
+
+function findFolderLanguage(codePaths: string[], folder: string): SupportedReviewLanguage | undefined {
+  return codePaths
+    .filter((path) => path.startsWith(`${folder}/`))
+    .map((path) => matchLanguageProfileByPath(path)?.name)
+    .find(Boolean);
+}
+
+async function loadSolvedEntry(
+  octokit: PullRequestContext["octokit"],
+  owner: string,
+  repo: string,
+  ref: string,
+  readme: { path: string; sha: string; values: Partial<PathValues> },
+  codePaths: string[]
+): Promise<SolvedEntry | null> {
+  const content = await loadRepositoryTextFile(octokit, owner, repo, ref, readme.path);
+  if (content === null) return null;
+
+  const parsed = parseProblemReadme(content);
+  const { values } = readme;
+  const folder = dirname(readme.path);
+  const site = siteFromPathValues(values);
+  // The commit that last touched the README stands in for the author and date when neither is recorded.
+  const lastCommit =
+    values.author && parsed.submittedAt ? null : await getLastCommitForPath(octokit, owner, repo, ref, readme.path);
+
+  return {
+    site: site ? siteDisplayName(site) : values.site ?? values.siteKo ?? values.siteId ?? folder.split("/")[0] ?? "기타",
+    number: values.number ?? parsed.number ?? "?",
+    title: parsed.title ?? values.title ?? folder,
+    tags: parsed.tags,
+    language: findFolderLanguage(codePaths, folder),
+    author: values.author ?? lastCommit?.author,
+    date: formatSolvedDate(parsed.submittedAt ?? lastCommit?.date),
+    folder,
+    readmeSha: readme.sha
+  };
+}
+
+// Folders come from one tree listing on every run, so deleted folders never leave the index stale. Entries whose
+// README blob is unchanged since the last run are reused from the index file; only new or edited READMEs are read.
+async function buildSolvedIndexFile(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string,
+  config: RepoConfig
+): Promise<{ path: string; content: string; count: number }> {
+  const client = octokit as unknown as PullRequestContext["octokit"];
+  const files = await listRepositoryFiles(client, owner, repo, branch);
+  const readmeTemplates = [...new Set([config.paths.readme, DEFAULT_PATH_TEMPLATES.readme])];
+  const readmes = files.flatMap(({ path, sha }) => {
+    const values = readmeTemplates.map((template) => matchPathTemplate(template, path)).find(Boolean);
+    return values ? [{ path, sha, values }] : [];
+  });
+  const codePaths = files.map(({ path }) => path).filter((path) => matchLanguageProfileByPath(path));
+
+  const existing = await loadRepositoryTextFile(client, owner, repo, branch, config.paths.index);
+  const previous = new Map(readSolvedEntries(existing).map((entry) => [`${entry.folder}:${entry.readmeSha}`, entry]));
+  const entries: SolvedEntry[] = [];
+  const pending: typeof readmes = [];
+  for (const readme of readmes) {
+    const reused = previous.get(`${dirname(readme.path)}:${readme.sha}`);
+    if (reused) {
+      // Code files can change without the README, so the language is always taken from the current tree.
+      entries.push({ ...reused, language: findFolderLanguage(codePaths, reused.folder) });
+    } else {
+      pending.push(readme);
+    }
+  }
+  if (pending.length > SOLVED_INDEX_MAX_READS) {
+    console.warn("Solved index has more new READMEs than one run reads", { owner, repo, pending: pending.length });
+  }
+
+  const reads = pending.slice(0, SOLVED_INDEX_MAX_READS);
+  for (let index = 0; index < reads.length; index += SOLVED_INDEX_BATCH_SIZE) {
+    const batch = await Promise.all(
+      reads
+        .slice(index, index + SOLVED_INDEX_BATCH_SIZE)
+        .map((readme) => loadSolvedEntry(client, owner, repo, branch, readme, codePaths))
+    );
+    entries.push(...batch.filter((entry): entry is SolvedEntry => entry !== null));
+  }
+
+  return {
+    path: config.paths.index,
+    content: mergeSolvedIndex(existing, buildSolvedIndexSection(entries)),
+    count: entries.length
+  };
+}
+
+async function syncSolvedIndex(octokit: Octokit, owner: string, repo: string, branch: string, config: RepoConfig): Promise<void> {
+  await retryOnBranchConflict(async () => {
+    const { path, content, count } = await buildSolvedIndexFile(octokit, owner, repo, branch, config);
+    await commitFilesToBranch(
+      octokit as unknown as PullRequestContext["octokit"],
+      owner,
+      repo,
+      branch,
+      `docs: update solved problem index (${count})`,
+      [{ path, content }]
+    );
+  });
+}
+
 async function handlePushJob(job: WorkerJob, octokit: Octokit): Promise<void> {
   if (job.type !== "push") return;
   if (!job.branch) return;
 
+  if (job.branch === job.defaultBranch) {
+    const { config } = await loadRepoConfig(octokit, job.owner, job.repo, job.branch);
+    if (config.features.solvedIndex) {
+      try {
+        await syncSolvedIndex(octokit, job.owner, job.repo, job.branch, config);
+      } catch (error) {
+        console.error("Failed to update solved problem index", {
+          owner: job.owner,
+          repo: job.repo,
+          branch: job.branch,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+
   const openPulls = await octokit.rest.pulls.list({
     owner: job.owner,
     repo: job.repo,
@@ -408,16 +961,20 @@ async function handlePushJob(job: WorkerJob, octokit: Octokit): Promise<void> {
     per_page: 20
   });
 
+  if (openPulls.data.length === 0) return;
+  const { config } = await loadRepoConfig(octokit, job.owner, job.repo, openPulls.data[0].base.repo.default_branch);
+
   for (const pull of openPulls.data) {
-    const metadata = parsePrBody(pull.body);
-    if (hasRequiredTemplateFields(metadata)) continue;
+    const problems = await resolvePullProblems(octokit, job.owner, job.repo, pull);
+    const templateCheck = buildTemplateCheckBody(pull.body, problems, config);
+    if (!templateCheck) continue;
 
     await upsertTemplateCheckCommentForIssue(
       octokit as unknown as PullRequestContext["octokit"],
       job.owner,
       job.repo,
       pull.number,
-      REQUIRED_TEMPLATE_GUIDE
+      templateCheck.body
     );
   }
 }
@@ -434,118 +991,576 @@ async function handlePullRequestJob(job: WorkerJob, octokit: Octokit): Promise<v
     })
   ).data;
 
-  const context = buildPullRequestContext(octokit, job.owner, job.repo, pull);
+  await runPullRequestReview(octokit, job.owner, job.repo, pull);
+}
 
-  if (!pull.head.repo || !pull.base.repo) {
-    await upsertAiReviewComment(context, "PR 저장소 정보를 확인할 수 없습니다.");
-    return;
-  }
+type ReviewStage = "crawl" | "sync" | "ai" | "inline";
+type ReviewStageState = "pending" | "in_progress" | "success" | "skipped" | "failure";
 
-  const isForkPr = pull.head.repo.full_name !== pull.base.repo.full_name;
-  if (isForkPr) {
-    await upsertAiReviewComment(context, "현재 앱은 fork PR을 지원하지 않습니다.");
-    return;
-  }
+const REVIEW_STAGE_LABELS: Record<ReviewStage, string> = {
+  crawl: "문제 크롤링",
+  sync: "문제 파일 동기화",
+  ai: "AI 리뷰",
+  inline: "인라인 코멘트"
+};
 
-  const metadata = parsePrBody(pull.body);
-  if (!hasRequiredTemplateFields(metadata)) {
-    await upsertTemplateCheckComment(context, REQUIRED_TEMPLATE_GUIDE);
-    return;
-  }
-  await removeTemplateCheckComment(context);
+const REVIEW_STAGE_ICONS: Record<ReviewStageState, string> = {
+  pending: "⬜",
+  in_progress: "⏳",
+  success: "✅",
+  skipped: "⏭️",
+  failure: "❌"
+};
 
-  try {
-    const problem = await crawlProblem(metadata);
-    const problemMarkdown = buildProblemMarkdown(metadata, problem);
-    const folderName = buildFolderName(metadata.problemNumber!, problem.title);
-    const siteRoot = buildSiteRootFolder(metadata.site!);
-    const fileTitle = sanitizeProblemTitle(problem.title) || "문제";
-    const folderPath = `${siteRoot}/${folderName}`;
-    const languageProfile = resolveLanguageProfile(metadata.language);
-    const sourceCode =
-      (await loadPrimaryCode(context, [languageProfile.extension])) || languageProfile.fallbackTemplate;
-
-    await commitFilesToPrBranch(context, `docs: sync problem assets for ${folderName}`, [
-      { path: `${folderPath}/README.md`, content: problemMarkdown },
-      { path: `${folderPath}/${fileTitle}${languageProfile.extension}`, content: sourceCode }
-    ]);
-
-    const changedFiles = await loadChangedFilesForReview(context);
-    let aiReview = await generateAiReview({
-      problemMarkdown,
-      prBody: pull.body || "",
-      language: languageProfile.name,
-      askRequest: metadata.ask,
-      changedCodePrompt: buildChangedCodePrompt(changedFiles),
-      reviewTargets: changedFiles
-    });
+interface ReviewCheck {
+  stage(stage: ReviewStage, state: ReviewStageState): Promise<void>;
+  // The sync commit moves the PR head, and checks on an older commit are hidden from the PR.
+  moveTo(headSha: string): Promise<void>;
+  complete(conclusion: CheckConclusion, title: string, summary: string, annotations?: InlineReviewComment[]): Promise<void>;
+}
 
-    if (!aiReview) {
-      const provider = (process.env.AI_PROVIDER || "gemini").toLowerCase();
-      const model =
-        provider === "gemini"
-          ? process.env.GEMINI_MODEL || "gemini-2.0-flash"
-          : process.env.OPENAI_MODEL || "gpt-4.1-mini";
-      const timeout =
-        provider === "gemini"
-          ? process.env.GEMINI_TIMEOUT_MS || "15000"
-          : process.env.OPENAI_TIMEOUT_MS || "15000";
-      const hasKey =
-        provider === "gemini"
-          ? Boolean(process.env.GEMINI_API_KEY && process.env.GEMINI_API_KEY.trim().length > 0)
-          : Boolean(process.env.OPENAI_API_KEY && process.env.OPENAI_API_KEY.trim().length > 0);
-
-      await upsertAiReviewComment(
+async function startReviewCheck(context: PullRequestContext, headSha: string): Promise<ReviewCheck> {
+  const states: Record<ReviewStage, ReviewStageState> = {
+    crawl: "pending",
+    sync: "pending",
+    ai: "pending",
+    inline: "pending"
+  };
+  const describeStages = () =>
+    (Object.keys(states) as ReviewStage[])
+      .map((stage) => `- ${REVIEW_STAGE_ICONS[states[stage]]} ${REVIEW_STAGE_LABELS[stage]}`)
+      .join("\n");
+  const progress = () => ({ title: "리뷰 진행 중", summary: describeStages() });
+
+  let checkRunId = await createReviewCheckRun(context, headSha, progress());
+  return {
+    async stage(stage, state) {
+      states[stage] = state;
+      if (checkRunId) await updateReviewCheckRun(context, checkRunId, progress());
+    },
+    async moveTo(nextHeadSha) {
+      if (!checkRunId) return;
+      await updateReviewCheckRun(
+        context,
+        checkRunId,
+        { title: "새 커밋에서 계속", summary: `문제 파일 동기화 커밋(${nextHeadSha.slice(0, 7)})에서 리뷰를 이어갑니다.` },
+        "neutral"
+      );
+      checkRunId = await createReviewCheckRun(context, nextHeadSha, progress());
+    },
+    async complete(conclusion, title, summary, annotations) {
+      for (const stage of Object.keys(states) as ReviewStage[]) {
+        if (states[stage] === "in_progress") states[stage] = conclusion === "failure" ? "failure" : "skipped";
+        if (states[stage] === "pending") states[stage] = "skipped";
+      }
+      if (!checkRunId) return;
+      await updateReviewCheckRun(
         context,
-        `AI 리뷰를 생성하지 못했습니다. (provider=${provider}, model=${model}, timeoutMs=${timeout}, apiKey=${hasKey ? "set" : "missing"})\nCloudWatch Worker 로그에서 provider 실패 메시지를 확인해주세요.`
+        checkRunId,
+        { title, summary: `${describeStages()}\n\n${summary}`, annotations },
+        conclusion
       );
+    }
+  };
+}
+
+const CHECK_CONCLUSION_ORDER: CheckConclusion[] = ["success", "neutral", "failure"];
+
+function worstConclusion(conclusions: CheckConclusion[]): CheckConclusion {
+  return conclusions.reduce<CheckConclusion>(
+    (worst, conclusion) =>
+      CHECK_CONCLUSION_ORDER.indexOf(conclusion) > CHECK_CONCLUSION_ORDER.indexOf(worst) ? conclusion : worst,
+    "success"
+  );
+}
+
+async function loadIncrementalDelta(context: PullRequestContext, headSha: string): Promise<ReviewDeltaResult | null> {
+  const lastReviewedSha = await loadLastReviewedSha(context);
+  if (!lastReviewedSha || lastReviewedSha === headSha) return null;
+  return loadReviewDelta(context, lastReviewedSha, headSha);
+}
+
+function formatReviewDelta(delta: ReviewDelta): string {
+  const files = delta.files.map((file) => `- \`${file.path}\` (+${file.additions} -${file.deletions})`);
+  return [
+    "## 마지막 리뷰 이후 변경 사항",
+    "",
+    `\`${delta.baseSha.slice(0, 7)}\` → \`${delta.headSha.slice(0, 7)}\` · 커밋 ${delta.commitCount}개 · [비교 보기](${delta.htmlUrl})`,
+    "",
+    ...(files.length > 0 ? files : ["- 변경된 파일 없음"]),
+    "",
+    "> 인라인 코멘트는 이번에 새로 바뀐 라인에만 남겼습니다. 총평과 모범 답안은 PR 전체 코드를 기준으로 다시 작성했습니다."
+  ].join("\n");
+}
+
+// Slash commands re-run the review with these applied on top of the repository config and PR template.
+interface ReviewOverrides {
+  focus?: string;
+  answerCode?: boolean;
+  hint?: boolean;
+}
+
+// Returns why the review should stay spoiler-free, or undefined for a full review.
+function detectHintMode(pull: PullRequestData, problems: MetadataInference[], config: RepoConfig): string | undefined {
+  if (!config.features.hintMode) return undefined;
+  if (pull.draft) return "Draft PR";
+  if (pull.labels.some((label) => label.name === HINT_MODE_LABEL)) return `\`${HINT_MODE_LABEL}\` 라벨`;
+  const status = problems.map(({ metadata }) => metadata.status).find(isWorkInProgressStatus);
+  return status ? `Status: ${status}` : undefined;
+}
+
+async function runPullRequestReview(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pull: PullRequestData,
+  overrides: ReviewOverrides = {}
+): Promise<void> {
+  const context = buildPullRequestContext(octokit, owner, repo, pull);
+  const check = await startReviewCheck(context, pull.head.sha);
+
+  // Everything after the check run is created is guarded, so a failure cannot leave it stuck in progress.
+  try {
+    if (!pull.head.repo || !pull.base.repo) {
+      await upsertAiReviewComment(context, "PR 저장소 정보를 확인할 수 없습니다.");
+      await check.complete("neutral", "리뷰 건너뜀", "PR 저장소 정보를 확인할 수 없습니다.");
       return;
     }
 
-    // If model returns code identical to the submitted code while giving improvements,
-    // request one forced rewrite pass so answer_code reflects suggested changes.
-    const shouldForceRewrite =
-      aiReview.inlineSuggestions.length > 0 && isAnswerCodeTooSimilar(aiReview.answerCode, sourceCode);
-    if (shouldForceRewrite) {
-      const rewritten = await generateAiReview({
-        problemMarkdown,
-        prBody: pull.body || "",
-        language: languageProfile.name,
-        askRequest: buildForcedRewriteAsk(metadata.ask),
-        changedCodePrompt: buildChangedCodePrompt(changedFiles),
-        reviewTargets: changedFiles
-      });
-
-      if (rewritten && !isAnswerCodeTooSimilar(rewritten.answerCode, sourceCode)) {
-        aiReview = rewritten;
-      }
+    const isForkPr = pull.head.repo.full_name !== pull.base.repo.full_name;
+    if (isForkPr) {
+      await upsertAiReviewComment(context, "현재 앱은 fork PR을 지원하지 않습니다.");
+      await check.complete("neutral", "리뷰 건너뜀", "현재 앱은 fork PR을 지원하지 않습니다.");
+      return;
     }
 
-    const summaryBody = formatAiSummary(
-      aiReview.summaryMarkdown,
-      aiReview.timeComplexity,
-      aiReview.spaceComplexity,
-      aiReview.answerCode,
-      languageProfile.codeFence
+    const { config, errors: configErrors } = await loadRepoConfig(
+      octokit,
+      owner,
+      repo,
+      pull.base.repo.default_branch
+    );
+    if (pull.labels.some((label) => label.name === SKIP_SYNC_LABEL)) config.features.commitSync = false;
+    if (overrides.answerCode !== undefined) config.features.answerCode = overrides.answerCode;
+
+    const { focus } = overrides;
+    const problems = (await resolvePullProblems(octokit, owner, repo, pull)).map((item) =>
+      focus
+        ? { ...item, metadata: { ...item.metadata, ask: [focus, item.metadata.ask].filter(Boolean).join("\n") } }
+        : item
     );
-    await upsertAiReviewComment(context, summaryBody);
+    const hintReason =
+      overrides.hint === undefined ? detectHintMode(pull, problems, config) : overrides.hint ? "/hint" : undefined;
+    const templateCheck = buildTemplateCheckBody(pull.body, problems, config);
+    if (templateCheck) {
+      await upsertTemplateCheckComment(context, templateCheck.body);
+      if (templateCheck.blocking) {
+        await check.complete(
+          "failure",
+          "PR 템플릿 확인 필요",
+          "PR 본문의 필수 항목을 채우면 리뷰가 다시 실행됩니다. 템플릿 검증 코멘트를 확인해주세요."
+        );
+        return;
+      }
+    } else {
+      await removeTemplateCheckComment(context);
+    }
 
-    const inlineResult = await createInlineReview(
+    const isMultiProblem = problems.length > 1;
+    const isGenerated = buildGeneratedFileMatcher(config.paths.code);
+    const sourcePaths = isMultiProblem
+      ? matchSourceFiles(
+          problems.map(({ metadata }) => metadata),
+          await listChangedCodePaths(context, isGenerated)
+        )
+      : [undefined];
+
+    await check.stage("crawl", "in_progress");
+    const sections: string[] = [];
+    const prepared: Array<{ index: number; item: PreparedProblem }> = [];
+    for (const [index, { metadata }] of problems.entries()) {
+      try {
+        const item = await prepareProblem(context, metadata, config, pull.user?.login, sourcePaths[index]);
+        prepared.push({ index, item });
+      } catch (error) {
+        if (!isMultiProblem) throw error;
+        const message = error instanceof Error ? error.message : String(error);
+        sections[index] = `처리 중 오류가 발생했습니다: ${message}`;
+      }
+    }
+    await check.stage("crawl", prepared.length === problems.length ? "success" : "failure");
+
+    let reviewedSha = pull.head.sha;
+    if (prepared.length > 0 && config.features.commitSync) {
+      await check.stage("sync", "in_progress");
+      const syncedSha = await commitFilesToPrBranch(
+        context,
+        `docs: sync problem assets for ${prepared.map(({ item }) => item.folderName).join(", ")}`,
+        prepared.flatMap(({ item }) => item.files)
+      );
+      await check.stage("sync", "success");
+      if (syncedSha) {
+        reviewedSha = syncedSha;
+        await check.moveTo(syncedSha);
+      }
+    } else {
+      await check.stage("sync", "skipped");
+    }
+
+    await check.stage("ai", "in_progress");
+    const changedFiles = await loadChangedFilesForReview(context, Math.max(8, prepared.length * 2), 3500, isGenerated);
+    // Slash commands ask for a fresh look at the whole PR, so only event-driven runs are incremental.
+    const deltaResult =
+      config.features.incrementalReview && Object.keys(overrides).length === 0
+        ? await loadIncrementalDelta(context, reviewedSha)
+        : null;
+    const delta = deltaResult?.status === "incremental" ? deltaResult.delta : null;
+    const newLines = delta ? new Map(delta.files.map((file) => [file.path, file.addedLines])) : undefined;
+    const reviewFiles = newLines
+      ? changedFiles.map((file) => ({ ...file, addedLines: newLines.get(file.path) ?? [] }))
+      : changedFiles;
+    const inlineSuggestions: InlineReviewComment[] = [];
+    const conclusions: CheckConclusion[] = prepared.length === problems.length ? [] : ["failure"];
+    for (const { index, item } of prepared) {
+      const ownFiles = item.sourcePath ? reviewFiles.filter((file) => file.path === item.sourcePath) : [];
+      const reviewTargets = ownFiles.length > 0 ? ownFiles : reviewFiles;
+      const review = await reviewProblem(pull.body || "", item, reviewTargets, config, Boolean(hintReason));
+      sections[index] = review.summaryBody;
+      conclusions.push(review.conclusion);
+      // Each review only saw its own file, so its comments are pinned there even if the model misnames the path.
+      const sourcePath = ownFiles[0]?.path;
+      inlineSuggestions.push(
+        ...review.inlineSuggestions.map((comment) => (sourcePath ? { ...comment, path: sourcePath } : comment))
+      );
+    }
+
+    const summaryBody = isMultiProblem
+      ? problems
+          .map(({ metadata }, index) => {
+            const heading = describeProblem(metadata, prepared.find((entry) => entry.index === index)?.item);
+            return `# ${index + 1}. ${heading}\n\n${sections[index] ?? ""}`;
+          })
+          .join("\n\n---\n\n")
+      : sections[0];
+    const hintNotice = hintReason
+      ? `> 💡 힌트 모드(${hintReason})로 리뷰했습니다. 모범 답안과 복잡도 평가는 생략합니다. 전체 리뷰가 필요하면 \`/answer\`를 남겨주세요.\n\n`
+      : "";
+    const deltaNotice = delta
+      ? `${formatReviewDelta(delta)}\n\n`
+      : deltaResult?.status === "full"
+        ? `> ℹ️ ${deltaResult.reason}. 전체 코드를 다시 리뷰했으며, 이미 리뷰한 라인에도 인라인 코멘트가 다시 달릴 수 있습니다.\n\n`
+        : "";
+    const markerSha = await selectReviewedSha(context, reviewedSha, conclusions.includes("failure"));
+    await upsertAiReviewComment(
       context,
-      "인라인 코멘트를 추가했습니다. 전체 총평과 모범 답안은 AI 리뷰 코멘트를 확인해주세요.",
-      aiReview.inlineSuggestions,
-      changedFiles
+      `${hintNotice}${deltaNotice}${summaryBody}${buildConfigErrorNotice(configErrors)}`,
+      markerSha
     );
+    await check.stage("ai", conclusions.includes("failure") ? "failure" : "success");
 
-    if (inlineResult.reason === "no_valid_comments" && aiReview.inlineSuggestions.length > 0) {
-      await upsertFileLevelReviewComment(context, aiReview.inlineSuggestions);
+    const changedPaths = new Set(changedFiles.map((file) => file.path));
+    let annotations = inlineSuggestions.filter(
+      (comment) => changedPaths.has(comment.path) && (!newLines || newLines.get(comment.path)?.includes(comment.line))
+    );
+    if (config.features.inlineReview && inlineSuggestions.length > 0) {
+      await check.stage("inline", "in_progress");
+      const inlineResult = await createInlineReview(
+        context,
+        "인라인 코멘트를 추가했습니다. 전체 총평과 모범 답안은 AI 리뷰 코멘트를 확인해주세요.",
+        inlineSuggestions,
+        changedFiles,
+        config.review.maxInlineComments * prepared.length,
+        newLines
+      );
+
+      // In an incremental run the rest were about code that was already reviewed.
+      if (inlineResult.reason === "no_valid_comments" && !delta) {
+        await upsertFileLevelReviewComment(context, inlineSuggestions);
+      } else {
+        annotations = inlineResult.validComments;
+      }
+      await check.stage("inline", "success");
     }
+
+    const conclusion = worstConclusion(conclusions);
+    await check.complete(
+      conclusion,
+      conclusion === "success" ? "리뷰 완료" : conclusion === "neutral" ? "리뷰 완료 (예제 실패 확인 필요)" : "리뷰 일부 실패",
+      hintReason
+        ? `힌트 모드(${hintReason})로 리뷰했습니다. 힌트는 AI 리뷰 코멘트를 확인해주세요.`
+        : "전체 총평과 모범 답안은 AI 리뷰 코멘트를 확인해주세요.",
+      annotations
+    );
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
+    await check.complete("failure", "리뷰 실패", `처리 중 오류가 발생했습니다: ${message}`);
     await upsertAiReviewComment(context, `처리 중 오류가 발생했습니다: ${message}`);
   }
 }
 
+async function buildSolveRecords(
+  context: PullRequestContext,
+  pull: PullRequestData,
+  problems: PrProblemMetadata[],
+  config: RepoConfig
+): Promise<SolveRecord[]> {
+  const owner = context.payload.repository.owner.login;
+  const repo = context.payload.repository.name;
+  const readmeTemplates = [...new Set([config.paths.readme, DEFAULT_PATH_TEMPLATES.readme])];
+  const readmes = (await listPullFilePaths(context)).flatMap((path) => {
+    const values = readmeTemplates.map((template) => matchPathTemplate(template, path)).find(Boolean);
+    return values ? [{ path, values }] : [];
+  });
+  const reviewBody = await loadAiReviewCommentBody(context);
+  const complexities = reviewBody ? parseReviewComplexities(reviewBody) : [];
+
+  const records: SolveRecord[] = [];
+  for (const [index, metadata] of problems.entries()) {
+    if (!metadata.problemNumber) continue;
+    const readme = readmes.find(({ values }) => {
+      const site = siteFromPathValues(values);
+      return values.number === metadata.problemNumber && (!site || !metadata.site || site === metadata.site);
+    });
+    const content = readme
+      ? await loadRepositoryTextFile(context.octokit, owner, repo, pull.base.ref, readme.path)
+      : null;
+
+    records.push({
+      pullNumber: pull.number,
+      author: pull.user?.login ?? "unknown",
+      site: metadata.site ?? metadata.siteLabel ?? "기타",
+      problemNumber: metadata.problemNumber,
+      title: content ? parseProblemReadme(content).title : undefined,
+      language: metadata.language ? resolveLanguageProfile(metadata.language).name : undefined,
+      folder: readme ? dirname(readme.path) : undefined,
+      timeComplexity: complexities[index]?.time,
+      spaceComplexity: complexities[index]?.space,
+      submittedAt: metadata.submittedAt,
+      openedAt: pull.created_at,
+      mergedAt: pull.merged_at ?? new Date().toISOString()
+    });
+  }
+  return records;
+}
+
+async function handlePullRequestMergedJob(job: WorkerJob, octokit: Octokit): Promise<void> {
+  if (job.type !== "pull_request_merged") return;
+
+  const pull = (
+    await octokit.rest.pulls.get({
+      owner: job.owner,
+      repo: job.repo,
+      pull_number: job.pullNumber
+    })
+  ).data;
+  if (!pull.merged) return;
+
+  const context = buildPullRequestContext(octokit, job.owner, job.repo, pull);
+  await removeTemplateCheckComment(context);
+
+  const { config } = await loadRepoConfig(octokit, job.owner, job.repo, pull.base.repo.default_branch);
+  const records = config.features.solveLog
+    ? await buildSolveRecords(
+        context,
+        pull,
+        (await resolvePullProblems(octokit, job.owner, job.repo, pull)).map(({ metadata }) => metadata),
+        config
+      )
+    : [];
+  if (records.length === 0) return;
+
+  // SOLVED.md is left to the push job the merge itself triggers, so it is built once per merge.
+  await retryOnBranchConflict(async () => {
+    const existing = await loadRepositoryTextFile(context.octokit, job.owner, job.repo, pull.base.ref, config.paths.solveLog);
+    await commitFilesToBranch(
+      context.octokit,
+      job.owner,
+      job.repo,
+      pull.base.ref,
+      `docs: record solve for #${pull.number}`,
+      [{ path: config.paths.solveLog, content: appendSolveRecords(existing, records) }]
+    );
+  });
+}
+
+async function loadProblemMarkdownForPath(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pull: PullRequestData,
+  config: RepoConfig,
+  path: string
+): Promise<{ markdown: string; language?: string }> {
+  const problems = (await resolvePullProblems(octokit, owner, repo, pull)).map(({ metadata }) => metadata);
+  const sourcePaths = problems.length > 1 ? matchSourceFiles(problems, [path]) : [path];
+  const metadata = problems[sourcePaths.indexOf(path)] ?? problems[0];
+  try {
+    const problem = await crawlProblem(metadata);
+    return { markdown: buildProblemMarkdown(metadata, problem, config.format), language: metadata.language };
+  } catch (error) {
+    console.error("Failed to load problem for reply", {
+      owner,
+      repo,
+      pullNumber: pull.number,
+      message: error instanceof Error ? error.message : String(error)
+    });
+    return { markdown: "문제 정보를 불러오지 못했습니다.", language: metadata.language };
+  }
+}
+
+async function explainLines(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pull: PullRequestData,
+  command: Extract<SlashCommand, { name: "explain" }>
+): Promise<string> {
+  const context = buildPullRequestContext(octokit, owner, repo, pull);
+  const { config } = await loadRepoConfig(octokit, owner, repo, pull.base.repo.default_branch);
+  const codePaths = await listChangedCodePaths(context, buildGeneratedFileMatcher(config.paths.code));
+  const path = command.path
+    ? codePaths.find((candidate) => candidate === command.path || candidate.endsWith(`/${command.path}`))
+    : codePaths[0];
+  if (!path) {
+    return command.path
+      ? `변경된 코드 파일 중 \`${command.path}\`을 찾지 못했습니다.`
+      : "설명할 코드 파일을 찾지 못했습니다.";
+  }
+
+  const code = await loadCodeFile(context, path);
+  const lineCount = code?.split("\n").length ?? 0;
+  if (!code || command.endLine > lineCount) {
+    return `\`${path}\`은 ${lineCount}줄이라 ${command.startLine}-${command.endLine}번 라인을 찾을 수 없습니다.`;
+  }
+
+  const problem = await loadProblemMarkdownForPath(octokit, owner, repo, pull, config, path);
+  const range = command.startLine === command.endLine ? `L${command.startLine}` : `L${command.startLine}-L${command.endLine}`;
+  const reply = await generateAiReply(
+    {
+      problemMarkdown: problem.markdown,
+      language: matchLanguageProfileByPath(path)?.name ?? resolveLanguageProfile(problem.language).name,
+      path,
+      code,
+      question: `${range}가 어떤 역할을 하는지, 왜 필요한지, 이 풀이의 시간/공간 복잡도에 어떤 영향을 주는지 설명해주세요.`,
+      focusLines: { start: command.startLine, end: command.endLine },
+      style: { language: config.review.language, tone: config.review.tone }
+    },
+    config.ai
+  );
+  return `### \`${path}\` ${range}\n\n${reply ?? describeAiFailure(config.ai)}`;
+}
+
+// Commands and replies spend AI quota, so only the PR author and repository collaborators may trigger them.
+async function canUseBot(octokit: Octokit, owner: string, repo: string, pull: PullRequestData, login: string): Promise<boolean> {
+  if (login === pull.user?.login) return true;
+  return isRepositoryCollaborator(octokit as unknown as PullRequestContext["octokit"], owner, repo, login);
+}
+
+async function handleCommandJob(job: WorkerJob, octokit: Octokit): Promise<void> {
+  if (job.type !== "command") return;
+
+  const client = octokit as unknown as PullRequestContext["octokit"];
+  const react = (content: Parameters<typeof addIssueCommentReaction>[4]) =>
+    addIssueCommentReaction(client, job.owner, job.repo, job.commentId, content);
+
+  const pull = (
+    await octokit.rest.pulls.get({
+      owner: job.owner,
+      repo: job.repo,
+      pull_number: job.pullNumber
+    })
+  ).data;
+  const context = buildPullRequestContext(octokit, job.owner, job.repo, pull);
+
+  if (!(await canUseBot(octokit, job.owner, job.repo, pull, job.commenter))) {
+    await react("-1");
+    return;
+  }
+
+  const { command } = job;
+  if (command.name === "unknown") {
+    await react("confused");
+    await upsertCommandHelpComment(context, `\`${command.raw}\`의 형식을 읽을 수 없습니다.\n${COMMAND_USAGE}`);
+    return;
+  }
+  if (pull.state !== "open") {
+    await react("confused");
+    return;
+  }
+
+  await react("eyes");
+  try {
+    switch (command.name) {
+      case "review":
+        await runPullRequestReview(octokit, job.owner, job.repo, pull, { focus: command.focus });
+        break;
+      case "hint":
+        await runPullRequestReview(octokit, job.owner, job.repo, pull, { hint: true });
+        break;
+      case "answer":
+        await runPullRequestReview(octokit, job.owner, job.repo, pull, { hint: false, answerCode: true });
+        break;
+      case "skip-sync":
+        await addPullLabel(context, SKIP_SYNC_LABEL);
+        break;
+      case "explain": {
+        const explanation = await explainLines(octokit, job.owner, job.repo, pull, command);
+        await createPullComment(context, `@${job.commenter}\n\n${explanation}`);
+        break;
+      }
+    }
+    await react("rocket");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Failed to run command", { owner: job.owner, repo: job.repo, command: command.name, message });
+    await react("confused");
+    await createPullComment(context, `\`/${command.name}\` 명령을 처리하지 못했습니다: ${message}`);
+  }
+}
+
+const REVIEW_REPLY_HISTORY_LIMIT = 10;
+
+async function handleReviewReplyJob(job: WorkerJob, octokit: Octokit): Promise<void> {
+  if (job.type !== "review_reply") return;
+
+  const pull = (
+    await octokit.rest.pulls.get({
+      owner: job.owner,
+      repo: job.repo,
+      pull_number: job.pullNumber
+    })
+  ).data;
+  const context = buildPullRequestContext(octokit, job.owner, job.repo, pull);
+
+  const thread = await loadBotReviewThread(context, job.commentId);
+  if (!thread) return;
+  const question = thread.messages.at(-1);
+  if (!question || question.fromBot) return;
+  if (!(await canUseBot(octokit, job.owner, job.repo, pull, job.commenter))) return;
+
+  const { config } = await loadRepoConfig(octokit, job.owner, job.repo, pull.base.repo.default_branch);
+  const code = (await loadCodeFile(context, thread.path)) ?? "";
+  const problem = await loadProblemMarkdownForPath(octokit, job.owner, job.repo, pull, config, thread.path);
+  const reply = await generateAiReply(
+    {
+      problemMarkdown: problem.markdown,
+      language: matchLanguageProfileByPath(thread.path)?.name ?? resolveLanguageProfile(problem.language).name,
+      path: thread.path,
+      code,
+      question: question.body,
+      focusLines: thread.line ? { start: thread.line, end: thread.line } : undefined,
+      history: thread.messages
+        .slice(0, -1)
+        .slice(-REVIEW_REPLY_HISTORY_LIMIT)
+        .map((message) => ({ author: message.fromBot ? "리뷰어(봇)" : message.author, body: message.body })),
+      style: { language: config.review.language, tone: config.review.tone }
+    },
+    config.ai
+  );
+
+  await replyToReviewThread(context, thread.rootCommentId, reply ?? describeAiFailure(config.ai));
+}
+
 async function processJob(job: WorkerJob): Promise<void> {
   const octokit = await getOctokitForInstallation(job.installationId);
   switch (job.type) {
@@ -555,15 +1570,25 @@ async function processJob(job: WorkerJob): Promise<void> {
     case "pull_request":
       await handlePullRequestJob(job, octokit);
       return;
+    case "pull_request_merged":
+      await handlePullRequestMergedJob(job, octokit);
+      return;
+    case "command":
+      await handleCommandJob(job, octokit);
+      return;
+    case "review_reply":
+      await handleReviewReplyJob(job, octokit);
+      return;
     default:
       throw new Error(`Unsupported worker job type: ${(job as { type?: string }).type}`);
   }
 }
 
-export const handler = async (event: SqsEventLike): Promise<BatchResponseLike> => {
+export const handler = async (event: SqsEventLike, context?: LambdaContextLike): Promise<BatchResponseLike> => {
   const failures: Array<{ itemIdentifier: string }> = [];
 
   for (const record of event.Records) {
+    jobDeadline = Date.now() + (context?.getRemainingTimeInMillis() ?? DEFAULT_JOB_BUDGET_MS);
     try {
       const job = parseWorkerJob(record.body);
       await processJob(job);
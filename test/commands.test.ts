@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { parseSlashCommand } from "../src/commands.js";
+
+describe("parseSlashCommand", () => {
+  it("parses known commands from the first line", () => {
+    expect(parseSlashCommand("/review focus: 시간복잡도\n더 자세히")).toEqual({ name: "review", focus: "시간복잡도" });
+    expect(parseSlashCommand("/explain Main.java L23-L30")).toEqual({
+      name: "explain",
+      startLine: 23,
+      endLine: 30,
+      path: "Main.java"
+    });
+  });
+
+  it("ignores prose and commands meant for other bots", () => {
+    expect(parseSlashCommand("/etc path 아래 설정을 봐주세요")).toBeNull();
+    expect(parseSlashCommand("/deploy staging")).toBeNull();
+    expect(parseSlashCommand("리뷰 감사합니다")).toBeNull();
+  });
+
+  it("reports our own commands with unreadable arguments", () => {
+    expect(parseSlashCommand("/explain abc")).toEqual({ name: "unknown", raw: "/explain abc" });
+  });
+});
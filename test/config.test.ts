@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { buildConfigErrorNotice, defaultRepoConfig, parseRepoConfig } from "../src/config.js";
+
+describe("parseRepoConfig", () => {
+  it("uses the defaults for an empty file, with every feature on except the judge", () => {
+    const { config, errors } = parseRepoConfig("");
+
+    expect(errors).toEqual([]);
+    expect(config).toEqual(defaultRepoConfig());
+    expect(config.features).toEqual({
+      commitSync: true,
+      answerCode: true,
+      inlineReview: true,
+      solvedIndex: true,
+      solveLog: true,
+      hintMode: true,
+      judge: false,
+      incrementalReview: true
+    });
+    expect(config.paths).toMatchObject({
+      readme: "{site}/{number}.{title}/README.md",
+      code: "{site}/{number}.{title}/{title}{ext}",
+      index: "SOLVED.md"
+    });
+  });
+
+  it("reads valid values, including site aliases and the BaekjoonHub layout", () => {
+    const { config, errors } = parseRepoConfig(
+      [
+        "sites: [백준, programmers]",
+        "languages: [Python]",
+        "format: baekjoonhub",
+        "review:",
+        "  tone: strict",
+        "  max_inline_comments: 3",
+        "features:",
+        "  judge: true",
+        "  answer_code: false"
+      ].join("\n")
+    );
+
+    expect(errors).toEqual([]);
+    expect(config.sites).toEqual(["BOJ", "PROGRAMMERS"]);
+    expect(config.languages).toEqual(["Python"]);
+    expect(config.paths.readme).toBe("{siteKo}/{tier}/{number}. {title}/README.md");
+    expect(config.review).toMatchObject({ tone: "strict", maxInlineComments: 3 });
+    expect(config.features).toMatchObject({ judge: true, answerCode: false, inlineReview: true });
+  });
+
+  it("reports unknown keys at every level and keeps the rest", () => {
+    const { config, errors } = parseRepoConfig(
+      ["theme: dark", "features:", "  inline_review: false", "  emoji: true", "review:", "  length: long"].join("\n")
+    );
+
+    expect(errors.map((error) => error.field)).toEqual(["theme", "review.length", "features.emoji"]);
+    expect(config.features.inlineReview).toBe(false);
+  });
+
+  it("reports values of the wrong type and falls back to the default for them", () => {
+    const { config, errors } = parseRepoConfig(
+      [
+        "sites: BOJ",
+        "languages: [Java, Kotlin]",
+        "format: fancy",
+        "review:",
+        "  max_inline_comments: 0",
+        "features:",
+        '  judge: "yes"',
+        "paths: readme.md"
+      ].join("\n")
+    );
+
+    expect(errors).toEqual([
+      { field: "sites", message: "BOJ, PROGRAMMERS, CODEFORCES, LEETCODE, SWEA, SOFTEER 중 하나 이상을 담은 목록이어야 합니다." },
+      { field: "languages[1]", message: "Java | Python | C++ 중 하나여야 합니다." },
+      { field: "format", message: "default | baekjoonhub 중 하나여야 합니다." },
+      { field: "paths", message: "key: value 형식의 매핑이어야 합니다." },
+      { field: "review.max_inline_comments", message: "1 이상의 정수여야 합니다." },
+      { field: "features.judge", message: "true 또는 false여야 합니다." }
+    ]);
+    expect(config.sites).toEqual(defaultRepoConfig().sites);
+    expect(config.languages).toEqual(["Java"]);
+    expect(config.format).toBe("default");
+    expect(config.review.maxInlineComments).toBe(8);
+    expect(config.features.judge).toBe(false);
+  });
+
+  it("rejects path templates with unknown or missing placeholders", () => {
+    const { config, errors } = parseRepoConfig(
+      ["paths:", "  readme: '{site}/{title}/README.md'", "  code: '{site}/{number}/{problem}{ext}'"].join("\n")
+    );
+
+    expect(errors).toEqual([
+      { field: "paths.readme", message: "{number}가 포함되어야 합니다." },
+      expect.objectContaining({ field: "paths.code", message: expect.stringContaining("알 수 없는 치환자입니다: {problem}") })
+    ]);
+    expect(config.paths.readme).toBe(defaultRepoConfig().paths.readme);
+  });
+
+  it("reports YAML syntax errors and non-mapping files", () => {
+    expect(parseRepoConfig("features: [").errors).toEqual([
+      expect.objectContaining({ field: "yaml", message: expect.stringMatching(/^YAML 문법 오류/) })
+    ]);
+    expect(parseRepoConfig("- BOJ").errors).toEqual([{ field: "(root)", message: "key: value 형식의 매핑이어야 합니다." }]);
+  });
+});
+
+describe("buildConfigErrorNotice", () => {
+  it("lists every error under a warning for the review comment", () => {
+    const { errors } = parseRepoConfig("theme: dark\nformat: fancy");
+
+    expect(buildConfigErrorNotice(errors)).toBe(
+      [
+        "",
+        "",
+        "> ⚠️ `.github/ct-review.yml` 설정 오류로 아래 항목은 기본값을 사용했습니다.",
+        "> - `theme`: 알 수 없는 필드입니다. (사용 가능: sites, languages, format, paths, ai, review, features)",
+        "> - `format`: default | baekjoonhub 중 하나여야 합니다."
+      ].join("\n")
+    );
+  });
+
+  it("adds nothing when the config is valid", () => {
+    expect(buildConfigErrorNotice([])).toBe("");
+  });
+});
@@ -0,0 +1,145 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+
+let cacheDir: string;
+
+beforeAll(async () => {
+  cacheDir = await mkdtemp(join(tmpdir(), "ct-review-test-cache-"));
+  vi.stubEnv("PROBLEM_CACHE_DIR", cacheDir);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await rm(cacheDir, { recursive: true, force: true });
+});
+
+async function loadFixture(name: string): Promise<string> {
+  return readFile(new URL(`./fixtures/${name}`, import.meta.url), "utf-8");
+}
+
+describe("crawlProblem (LEETCODE)", () => {
+  it("maps a recorded GraphQL question response into a CrawledProblem", async () => {
+    const fixture = await loadFixture("leetcode-two-sum.json");
+    const fetchMock = vi.fn(async () => new Response(fixture, { headers: { "content-type": "application/json" } }));
+    vi.stubGlobal("fetch", fetchMock);
+    const { crawlProblem } = await import("../src/crawlers.js");
+
+    const problem = await crawlProblem({ site: "LEETCODE", problemNumber: "two-sum", forceRefresh: true });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("https://leetcode.com/graphql");
+    expect(JSON.parse(String(init.body)).variables).toEqual({ titleSlug: "two-sum" });
+    expect(problem).toMatchObject({
+      title: "Two Sum",
+      displayId: "1",
+      difficulty: "Easy",
+      problemUrl: "https://leetcode.com/problems/two-sum/",
+      classification: ["Array", "Hash Table"],
+      outputHtml: "",
+      samples: []
+    });
+    expect(problem.descriptionHtml).toContain("Example 1:");
+    expect(problem.descriptionHtml).not.toContain("Constraints:");
+    expect(problem.inputHtml).toMatch(/^<p><strong>Constraints:<\/strong><\/p>/);
+  });
+
+  it("keeps a link to the same slug but not to a longer slug that starts with it", async () => {
+    const fixture = await loadFixture("leetcode-two-sum.json");
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(fixture, { headers: { "content-type": "application/json" } })));
+    const { crawlProblem } = await import("../src/crawlers.js");
+
+    const same = await crawlProblem({
+      site: "LEETCODE",
+      problemNumber: "two-sum",
+      problemUrl: "https://leetcode.com/problems/two-sum/description/",
+      forceRefresh: true
+    });
+    expect(same.problemUrl).toBe("https://leetcode.com/problems/two-sum/description/");
+
+    const longer = await crawlProblem({
+      site: "LEETCODE",
+      problemNumber: "two-sum",
+      problemUrl: "https://leetcode.com/problems/two-sum-ii-input-array-is-sorted/",
+      forceRefresh: true
+    });
+    expect(longer.problemUrl).toBe("https://leetcode.com/problems/two-sum/");
+  });
+
+  it("fails when the response has no question", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => Response.json({ data: { question: null } })));
+    const { crawlProblem } = await import("../src/crawlers.js");
+
+    await expect(crawlProblem({ site: "LEETCODE", problemNumber: "no-such-problem", forceRefresh: true })).rejects.toThrow(
+      "LeetCode question not found: no-such-problem"
+    );
+  });
+});
+
+describe("crawlProblem (unreadable statements)", () => {
+  const statement = { title: "붙여넣은 제목", description: "붙여넣은 문제 설명", input: "입력", output: "출력" };
+
+  function stubPremiumQuestion() {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () =>
+        Response.json({
+          data: {
+            question: {
+              questionFrontendId: "1236",
+              title: "Web Crawler",
+              content: null,
+              difficulty: "Medium",
+              isPaidOnly: true,
+              topicTags: [{ name: "String" }]
+            }
+          }
+        })
+      )
+    );
+  }
+
+  it("prefers the pasted statement over a LeetCode Premium placeholder and keeps the site metadata", async () => {
+    stubPremiumQuestion();
+    const { crawlProblem } = await import("../src/crawlers.js");
+
+    const problem = await crawlProblem({ site: "LEETCODE", problemNumber: "web-crawler", statement });
+
+    expect(problem).toMatchObject({
+      title: "붙여넣은 제목",
+      displayId: "1236",
+      difficulty: "Medium",
+      classification: ["String"],
+      descriptionHtml: "붙여넣은 문제 설명",
+      inputHtml: "입력",
+      contentFormat: "markdown"
+    });
+  });
+
+  it("returns the Premium placeholder without caching it when nothing was pasted", async () => {
+    stubPremiumQuestion();
+    const { crawlProblem } = await import("../src/crawlers.js");
+    const { getProblemCache } = await import("../src/cache.js");
+
+    const problem = await crawlProblem({ site: "LEETCODE", problemNumber: "web-crawler-ii" });
+
+    expect(problem.descriptionHtml).toBe("LeetCode Premium 전용 문제라 본문을 불러올 수 없습니다.");
+    await expect(getProblemCache().get("LEETCODE", "web-crawler-ii")).resolves.toBeNull();
+  });
+
+  it("prefers the pasted statement for a SWEA problem without contestProbId", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    const { crawlProblem } = await import("../src/crawlers.js");
+
+    const problem = await crawlProblem({ site: "SWEA", problemNumber: "1234", statement });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(problem).toMatchObject({ title: "붙여넣은 제목", descriptionHtml: "붙여넣은 문제 설명" });
+  });
+});
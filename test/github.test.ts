@@ -0,0 +1,272 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createInlineReview,
+  loadLastReviewedSha,
+  loadReviewDelta,
+  selectReviewedSha,
+  upsertAiReviewComment,
+  type ChangedFileForReview,
+  type PullRequestContext
+} from "../src/github.js";
+
+// Two hunks: right-side lines 1-3 and 11-13, of which 2 and 12 were added.
+const PATCH = ["@@ -1,2 +1,3 @@", " a", "+b", " c", "@@ -10,2 +11,3 @@", " x", "+y", " z"].join("\n");
+
+const FILE: ChangedFileForReview = { path: "src/Main.java", patch: PATCH, addedLines: [2, 12], content: "" };
+
+const OLD_SHA = "a".repeat(40);
+const NEW_SHA = "b".repeat(40);
+
+interface FakeOptions {
+  comments?: Array<{ id: number; body: string; user: { type: string } }>;
+  compare?: () => Promise<unknown>;
+}
+
+function fakeContext({ comments = [], compare }: FakeOptions = {}) {
+  const createReview = vi.fn(async () => ({ data: {} }));
+  const updateComment = vi.fn(async () => ({ data: {} }));
+  const createComment = vi.fn(async () => ({ data: {} }));
+  const compareCommitsWithBasehead = vi.fn(compare ?? (async () => ({ data: {} })));
+  const octokit = {
+    rest: {
+      pulls: {
+        get: vi.fn(async () => ({ data: { head: { sha: "head" } } })),
+        listReviews: vi.fn(async () => ({ data: [] })),
+        createReview
+      },
+      issues: { listComments: vi.fn(async () => ({ data: comments })), updateComment, createComment },
+      repos: { compareCommitsWithBasehead }
+    }
+  };
+  const context = {
+    octokit,
+    payload: { repository: { owner: { login: "owner" }, name: "repo" }, pull_request: { number: 7 } }
+  } as unknown as PullRequestContext;
+  return { context, createReview, updateComment, createComment, compareCommitsWithBasehead };
+}
+
+function reviewComment(body: string) {
+  return { id: 1, body: `<!-- ct-assistant:ai-review -->\n${body}`, user: { type: "Bot" } };
+}
+
+type PostedComment = { path: string; line: number; start_line?: number; body: string };
+
+function postedComments(createReview: ReturnType<typeof fakeContext>["createReview"]): PostedComment[] {
+  const [request] = createReview.mock.calls[0] as unknown as [{ comments: PostedComment[] }];
+  return request.comments;
+}
+
+describe("createInlineReview suggestions", () => {
+  it("posts a multi-line suggestion when the whole range is in one hunk", async () => {
+    const { context, createReview } = fakeContext();
+
+    await createInlineReview(
+      context,
+      "summary",
+      [{ path: "src/Main.java", line: 3, startLine: 2, body: "합칠 수 있습니다.", suggestion: "bc" }],
+      [FILE]
+    );
+
+    expect(postedComments(createReview)).toEqual([
+      {
+        path: "src/Main.java",
+        line: 3,
+        side: "RIGHT",
+        start_line: 2,
+        start_side: "RIGHT",
+        body: "합칠 수 있습니다.\n\n```suggestion\nbc\n```"
+      }
+    ]);
+  });
+
+  it("keeps the comment but drops the suggestion when its line had to be moved", async () => {
+    const { context, createReview } = fakeContext();
+
+    const result = await createInlineReview(
+      context,
+      "summary",
+      [{ path: "Main.java", line: 5, body: "여기를 보세요.", suggestion: "fixed" }],
+      [FILE]
+    );
+
+    expect(result.validComments).toEqual([{ path: "src/Main.java", line: 3, body: "여기를 보세요." }]);
+    expect(postedComments(createReview)[0].body).toBe("여기를 보세요.");
+  });
+
+  it("drops the suggestion when the range leaves the hunk", async () => {
+    const { context, createReview } = fakeContext();
+
+    await createInlineReview(
+      context,
+      "summary",
+      [{ path: "src/Main.java", line: 12, startLine: 3, body: "범위가 넓습니다.", suggestion: "y" }],
+      [FILE]
+    );
+
+    expect(postedComments(createReview)).toEqual([
+      { path: "src/Main.java", line: 12, side: "RIGHT", body: "범위가 넓습니다." }
+    ]);
+  });
+
+  it("uses a longer fence when the suggested code contains backticks", async () => {
+    const { context, createReview } = fakeContext();
+
+    await createInlineReview(
+      context,
+      "summary",
+      [{ path: "src/Main.java", line: 12, body: "문자열", suggestion: "String s = \"```\";" }],
+      [FILE]
+    );
+
+    expect(postedComments(createReview)[0].body).toBe('문자열\n\n````suggestion\nString s = "```";\n````');
+  });
+});
+
+describe("createInlineReview onlyLines", () => {
+  it("posts only comments on lines added since the last review", async () => {
+    const { context, createReview } = fakeContext();
+
+    const result = await createInlineReview(
+      context,
+      "summary",
+      [
+        { path: "src/Main.java", line: 2, body: "이전 리뷰에서 본 라인" },
+        { path: "src/Main.java", line: 12, body: "새 라인" }
+      ],
+      [FILE],
+      8,
+      new Map([["src/Main.java", [12]]])
+    );
+
+    expect(result.validComments.map((comment) => comment.line)).toEqual([12]);
+    expect(postedComments(createReview).map((comment) => comment.body)).toEqual(["새 라인"]);
+  });
+
+  it("skips the review when nothing lands on a new line", async () => {
+    const { context, createReview } = fakeContext();
+
+    const result = await createInlineReview(
+      context,
+      "summary",
+      [{ path: "src/Main.java", line: 2, body: "이전 리뷰에서 본 라인" }],
+      [FILE],
+      8,
+      new Map()
+    );
+
+    expect(result.validComments).toEqual([]);
+    expect(createReview).not.toHaveBeenCalled();
+  });
+});
+
+describe("loadReviewDelta", () => {
+  it("returns the lines added since the last reviewed commit", async () => {
+    const { context, compareCommitsWithBasehead } = fakeContext({
+      compare: async () => ({
+        data: {
+          status: "ahead",
+          ahead_by: 2,
+          html_url: "https://github.com/owner/repo/compare/a...b",
+          files: [{ filename: "src/Main.java", additions: 2, deletions: 0, patch: PATCH }]
+        }
+      })
+    });
+
+    const result = await loadReviewDelta(context, OLD_SHA, NEW_SHA);
+
+    expect(compareCommitsWithBasehead).toHaveBeenCalledWith(
+      expect.objectContaining({ basehead: `${OLD_SHA}...${NEW_SHA}` })
+    );
+    expect(result).toEqual({
+      status: "incremental",
+      delta: {
+        baseSha: OLD_SHA,
+        headSha: NEW_SHA,
+        htmlUrl: "https://github.com/owner/repo/compare/a...b",
+        commitCount: 2,
+        files: [{ path: "src/Main.java", additions: 2, deletions: 0, addedLines: [2, 12] }]
+      }
+    });
+  });
+
+  it("falls back to a full review after a force-push or rebase", async () => {
+    const { context } = fakeContext({ compare: async () => ({ data: { status: "diverged" } }) });
+
+    expect(await loadReviewDelta(context, OLD_SHA, NEW_SHA)).toEqual({
+      status: "full",
+      reason: "force-push 또는 rebase로 마지막 리뷰 커밋이 현재 브랜치에 없습니다"
+    });
+  });
+
+  it("falls back to a full review when the comparison is not ahead or fails", async () => {
+    const behind = fakeContext({ compare: async () => ({ data: { status: "behind" } }) });
+    expect(await loadReviewDelta(behind.context, OLD_SHA, NEW_SHA)).toEqual({
+      status: "full",
+      reason: "마지막 리뷰 커밋과 비교할 수 없습니다 (behind)"
+    });
+
+    // The previous head can be garbage-collected after a force-push, which the API reports as 404.
+    const missing = fakeContext({
+      compare: async () => {
+        throw Object.assign(new Error("Not Found"), { status: 404 });
+      }
+    });
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    expect(await loadReviewDelta(missing.context, OLD_SHA, NEW_SHA)).toEqual({
+      status: "full",
+      reason: "마지막 리뷰 커밋과 비교하지 못했습니다"
+    });
+    vi.restoreAllMocks();
+  });
+});
+
+describe("reviewed-sha marker", () => {
+  it("reads the marker from the bot's review comment only", async () => {
+    const marked = fakeContext({ comments: [reviewComment(`리뷰\n\n<!-- ct-assistant:reviewed-sha:${OLD_SHA} -->`)] });
+    expect(await loadLastReviewedSha(marked.context)).toBe(OLD_SHA);
+
+    const unmarked = fakeContext({ comments: [reviewComment("리뷰")] });
+    expect(await loadLastReviewedSha(unmarked.context)).toBeNull();
+
+    const byUser = fakeContext({
+      comments: [{ ...reviewComment(`<!-- ct-assistant:reviewed-sha:${OLD_SHA} -->`), user: { type: "User" } }]
+    });
+    expect(await loadLastReviewedSha(byUser.context)).toBeNull();
+  });
+
+  it("moves the marker to the reviewed head after a successful review", async () => {
+    const { context, updateComment } = fakeContext({
+      comments: [reviewComment(`리뷰\n\n<!-- ct-assistant:reviewed-sha:${OLD_SHA} -->`)]
+    });
+
+    await upsertAiReviewComment(context, "새 리뷰", await selectReviewedSha(context, NEW_SHA, false));
+
+    expect(updateComment).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: `<!-- ct-assistant:ai-review -->\n새 리뷰\n\n<!-- ct-assistant:reviewed-sha:${NEW_SHA} -->`
+      })
+    );
+  });
+
+  it("keeps the previous marker after a failed review", async () => {
+    const { context, updateComment } = fakeContext({
+      comments: [reviewComment(`리뷰\n\n<!-- ct-assistant:reviewed-sha:${OLD_SHA} -->`)]
+    });
+
+    await upsertAiReviewComment(context, "실패", await selectReviewedSha(context, NEW_SHA, true));
+
+    expect(updateComment).toHaveBeenCalledWith(
+      expect.objectContaining({ body: expect.stringContaining(`reviewed-sha:${OLD_SHA}`) })
+    );
+  });
+
+  it("writes no marker after a failed first review, so the next run reviews everything", async () => {
+    const { context, createComment } = fakeContext();
+
+    const markerSha = await selectReviewedSha(context, NEW_SHA, true);
+    await upsertAiReviewComment(context, "실패", markerSha);
+
+    expect(markerSha).toBeUndefined();
+    expect(createComment).toHaveBeenCalledWith(expect.objectContaining({ body: "<!-- ct-assistant:ai-review -->\n실패" }));
+  });
+});
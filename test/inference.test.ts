@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { inferMetadata, matchSourceFiles, type MetadataHints } from "../src/inference.js";
+
+function hints(overrides: Partial<MetadataHints>): MetadataHints {
+  return { filePaths: [], commitMessages: [], ...overrides };
+}
+
+describe("inferMetadata", () => {
+  it("reads a problem link left anywhere in the body", () => {
+    const result = inferMetadata({}, hints({ body: "풀었습니다: https://www.acmicpc.net/problem/1000." }));
+
+    expect(result.metadata).toEqual({
+      site: "BOJ",
+      problemNumber: "1000",
+      problemUrl: "https://www.acmicpc.net/problem/1000"
+    });
+    expect(result.inferred.map(({ field, source }) => [field, source])).toEqual([
+      ["site", "body"],
+      ["problemNumber", "body"],
+      ["problemUrl", "body"]
+    ]);
+  });
+
+  it("ignores untouched template links", () => {
+    const result = inferMetadata({}, hints({ body: "URL: https://www.acmicpc.net/problem/{문제번호}" }));
+    expect(result.inferred).toEqual([]);
+  });
+
+  it("reads app and BaekjoonHub folder layouts and the language from the extension", () => {
+    const app = inferMetadata({}, hints({ filePaths: ["백준/1000.A+B/A+B.java"] }));
+    expect(app.metadata).toEqual({ site: "BOJ", problemNumber: "1000", language: "Java" });
+    expect(app.inferred.every(({ source }) => source === "files")).toBe(true);
+
+    const baekjoonHub = inferMetadata({}, hints({ filePaths: ["프로그래머스/lv2/42576. 완주하지 못한 선수/solution.py"] }));
+    expect(baekjoonHub.metadata).toEqual({ site: "PROGRAMMERS", problemNumber: "42576", language: "Python" });
+  });
+
+  it("prefers paths that name a problem over stray files", () => {
+    const result = inferMetadata({}, hints({ filePaths: ["Codeforces/util.cpp", "백준/1000.A+B/main.cpp"] }));
+    expect(result.metadata).toMatchObject({ site: "BOJ", problemNumber: "1000", language: "C++" });
+  });
+
+  it("reads the slug from LeetCode folders but not a displayed number", () => {
+    const slug = inferMetadata({}, hints({ filePaths: ["LeetCode/two-sum.Two Sum/Solution.java"] }));
+    expect(slug.metadata).toEqual({ site: "LEETCODE", problemNumber: "two-sum", language: "Java" });
+
+    const number = inferMetadata({}, hints({ filePaths: ["LeetCode/1.Two Sum/Solution.java"] }));
+    expect(number.metadata).toEqual({ site: "LEETCODE", language: "Java" });
+  });
+
+  it("reads site and number from branch names", () => {
+    expect(inferMetadata({}, hints({ branch: "boj/1000" })).metadata).toEqual({ site: "BOJ", problemNumber: "1000" });
+    expect(inferMetadata({}, hints({ branch: "feat/cf-1850C" })).metadata).toEqual({
+      site: "CODEFORCES",
+      problemNumber: "1850C"
+    });
+    expect(inferMetadata({}, hints({ branch: "feature/login" })).inferred).toEqual([]);
+  });
+
+  it("reads commit subjects and links in commit messages", () => {
+    const subject = inferMetadata({}, hints({ commitMessages: ["[BOJ 1000] A+B 풀이\n\n설명"] }));
+    expect(subject.metadata).toEqual({ site: "BOJ", problemNumber: "1000" });
+    expect(subject.inferred[0].source).toBe("commits");
+
+    const link = inferMetadata({}, hints({ commitMessages: ["solve\n\nhttps://leetcode.com/problems/two-sum/"] }));
+    expect(link.metadata).toMatchObject({ site: "LEETCODE", problemNumber: "two-sum" });
+  });
+
+  it("keeps explicit PR fields over every hint", () => {
+    const result = inferMetadata(
+      { site: "PROGRAMMERS", problemNumber: "42576", language: "Python" },
+      hints({
+        body: "https://www.acmicpc.net/problem/1000",
+        filePaths: ["백준/1001.A-B/Main.java"],
+        branch: "boj/1002",
+        commitMessages: ["BOJ 1003"]
+      })
+    );
+
+    expect(result.metadata).toEqual({ site: "PROGRAMMERS", problemNumber: "42576", language: "Python" });
+    expect(result.inferred).toEqual([]);
+  });
+
+  it("takes conflicting hints in body, files, branch, commits order", () => {
+    const result = inferMetadata(
+      {},
+      hints({ filePaths: ["백준/1001.A-B/Main.java"], branch: "boj/1002", commitMessages: ["BOJ 1003"] })
+    );
+
+    expect(result.metadata).toEqual({ site: "BOJ", problemNumber: "1001", language: "Java" });
+  });
+
+  it("only fills the number from hints for the same site", () => {
+    const result = inferMetadata({ site: "PROGRAMMERS" }, hints({ branch: "boj/1000" }));
+    expect(result.metadata).toEqual({ site: "PROGRAMMERS" });
+  });
+
+  it("leaves an explicit unsupported site for the validator", () => {
+    const result = inferMetadata({ siteLabel: "AtCoder" }, hints({ branch: "boj/1000" }));
+    expect(result.metadata).toEqual({ siteLabel: "AtCoder" });
+  });
+});
+
+describe("matchSourceFiles", () => {
+  it("pairs problems with explicit files, then folders, numbers and languages", () => {
+    const matched = matchSourceFiles(
+      [
+        { site: "BOJ", problemNumber: "1000", language: "Java" },
+        { site: "PROGRAMMERS", problemNumber: "42576", language: "Python", sourcePath: "./week1/pgm.py" },
+        { site: "CODEFORCES", problemNumber: "1850C", language: "C++" }
+      ],
+      ["week1/pgm.py", "solutions/cf_1850C.cpp", "백준/1000.A+B/Main.java"]
+    );
+
+    expect(matched).toEqual(["백준/1000.A+B/Main.java", "week1/pgm.py", "solutions/cf_1850C.cpp"]);
+  });
+
+  it("uses each file for one problem at most", () => {
+    expect(matchSourceFiles([{ language: "Java" }, { language: "Java" }], ["Main.java"])).toEqual(["Main.java", undefined]);
+  });
+});
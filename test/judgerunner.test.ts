@@ -0,0 +1,101 @@
+import { spawnSync } from "node:child_process";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { isSameOutput, runJudge } from "../src/judgerunner.js";
+
+const hasPython = spawnSync("python3", ["--version"]).status === 0;
+
+describe("isSameOutput", () => {
+  it("compares token sequences and ignores whitespace layout", () => {
+    expect(isSameOutput("1 2\n3\n", "1 2 3")).toBe(true);
+    expect(isSameOutput("YES", "  YES  \n\n")).toBe(true);
+    expect(isSameOutput("", "\n")).toBe(true);
+  });
+
+  it("rejects different, missing or extra tokens", () => {
+    expect(isSameOutput("1 2 3", "1 2")).toBe(false);
+    expect(isSameOutput("1 2", "1 2 3")).toBe(false);
+    expect(isSameOutput("Yes", "YES")).toBe(false);
+    expect(isSameOutput("12", "1 2")).toBe(false);
+  });
+});
+
+describe("runJudge request validation", () => {
+  it("refuses malformed requests before running anything", async () => {
+    await expect(runJudge({ language: "Python", code: "print(1)", samples: [] })).resolves.toEqual({
+      status: "unavailable",
+      reason: "예제 입출력이 없습니다."
+    });
+    const samples = Array.from({ length: 21 }, () => ({ input: "", output: "" }));
+    await expect(runJudge({ language: "Python", code: "print(1)", samples })).resolves.toMatchObject({
+      reason: "예제가 너무 많습니다."
+    });
+    await expect(
+      runJudge({ language: "Python", code: "x".repeat(200 * 1024 + 1), samples: [{ input: "", output: "" }] })
+    ).resolves.toMatchObject({ reason: "코드가 너무 깁니다." });
+  });
+
+  it("refuses languages without a judge profile", async () => {
+    const result = await runJudge({
+      language: "Kotlin" as never,
+      code: "fun main() {}",
+      samples: [{ input: "", output: "" }]
+    });
+    expect(result).toEqual({ status: "unavailable", reason: "지원하지 않는 언어입니다: Kotlin" });
+  });
+});
+
+describe.skipIf(!hasPython)("runJudge verdicts (Python)", () => {
+  beforeEach(() => {
+    vi.stubEnv("JUDGE_TIME_LIMIT_MS", "500");
+    vi.stubEnv("JUDGE_MEMORY_MB", "256");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  async function judgeOne(code: string, input = "", output = "") {
+    const result = await runJudge({ language: "Python", code, samples: [{ input, output }] });
+    if (result.status !== "judged") throw new Error(`not judged: ${JSON.stringify(result)}`);
+    return result;
+  }
+
+  it("passes matching output and fails a wrong answer with its actual output", async () => {
+    const code = "a, b = map(int, input().split())\nprint(a + b)\n";
+    const passed = await judgeOne(code, "1 2", "3");
+    expect(passed.samples[0]).toMatchObject({ index: 1, verdict: "pass", expected: "3" });
+    // The language multiplier scales the configured limit.
+    expect(passed.timeLimitMs).toBe(1500);
+
+    const failed = await judgeOne(code, "1 2", "4");
+    expect(failed.samples[0]).toMatchObject({ verdict: "fail", actual: "3\n" });
+  });
+
+  it("reports a non-zero exit as a runtime error with stderr", async () => {
+    const result = await judgeOne("raise ValueError('boom')\n");
+    expect(result.samples[0].verdict).toBe("re");
+    expect(result.samples[0].stderr).toContain("ValueError: boom");
+  });
+
+  it("kills an endless loop at the time limit", async () => {
+    const result = await judgeOne("while True:\n    pass\n");
+    expect(result.samples[0].verdict).toBe("tle");
+    expect(result.samples[0].durationMs).toBeLessThan(5000);
+  });
+
+  it("stops programs that exceed the memory limit", async () => {
+    const result = await judgeOne("data = bytearray(512 * 1024 * 1024)\nprint(len(data))\n", "", "536870912");
+    expect(result.samples[0].verdict).toBe("re");
+    expect(result.samples[0].stderr).toContain("MemoryError");
+  });
+
+  it("stops programs that flood stdout", async () => {
+    const result = await judgeOne("import sys\nwhile True:\n    sys.stdout.write('x' * 65536)\n");
+    expect(result.samples[0].verdict).toBe("re");
+  });
+
+  it("hides the sandbox working directory from error messages", async () => {
+    const result = await judgeOne("import sys\nsys.stderr.write(__file__)\nsys.exit(1)\n");
+    expect(result.samples[0].stderr).toBe("./main.py");
+  });
+});
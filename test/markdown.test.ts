@@ -0,0 +1,106 @@
+import { readFile } from "node:fs/promises";
+import { describe, expect, it } from "vitest";
+import { buildProblemMarkdown, htmlToMarkdown, toBaekjoonHubTitle } from "../src/markdown.js";
+
+async function loadFixture(name: string): Promise<string> {
+  return readFile(new URL(`./fixtures/${name}`, import.meta.url), "utf-8");
+}
+
+describe("htmlToMarkdown", () => {
+  it("converts a saved BOJ statement with math, lists, images, tables and pre blocks", async () => {
+    const html = await loadFixture("boj-problem-description.html");
+
+    expect(htmlToMarkdown(html, "https://www.acmicpc.net/problem/2042")).toBe(
+      [
+        "길이가 $N$인 수열 $A_1, A_2, \\dots, A_N$이 주어진다. 이때, 다음 쿼리를 수행하는 프로그램을 작성하시오. ($1 \\le N \\le 10^5$)",
+        "",
+        "- `1 i v`: $A_i$를 $v$로 바꾼다.",
+        "- `2 i j`: a\\*b\\*c 꼴의 곱 x\\_i\\_j를 출력한다.",
+        "",
+        "![](https://www.acmicpc.net/upload/images/query.png)",
+        "",
+        "| 쿼리 | 결과 |",
+        "| --- | --- |",
+        "| 1 \\| 2 | 3 |",
+        "",
+        "```",
+        "1 2 3",
+        "4 5 6",
+        "```"
+      ].join("\n")
+    );
+  });
+
+  it("converts a saved Programmers statement with headings, tables and highlighted code", async () => {
+    const html = await loadFixture("programmers-problem-description.html");
+
+    expect(htmlToMarkdown(html, "https://school.programmers.co.kr/learn/courses/30/lessons/42577")).toBe(
+      [
+        "###### 문제 설명",
+        "",
+        "전화번호부에 적힌 전화번호 중, 한 번호가 다른 번호의 **접두어**인 경우가 있는지 확인하려 합니다.<br>",
+        "전화번호가 다음과 같을 경우, 구조대 전화번호는 영석이의 전화번호의 접두사입니다.",
+        "",
+        "- 구조대 : 119",
+        "- 박준영 : 97 674 223",
+        "",
+        "##### 제한 사항",
+        "",
+        "- phone\\_book의 길이는 1 이상 1,000,000 이하입니다.",
+        "- 각 전화번호의 길이는 1 이상 20 이하입니다.",
+        "",
+        "##### 입출력 예제",
+        "",
+        "| phone\\_book | return |",
+        "| --- | --- |",
+        '| ["119", "97674223", "1195524421"] | false |',
+        "",
+        "##### 입출력 예 설명",
+        "",
+        "입출력 예 #1<br>",
+        "앞에서 설명한 예와 같습니다.",
+        "",
+        "```python",
+        "def solution(phone_book):",
+        "    return True",
+        "```"
+      ].join("\n")
+    );
+  });
+
+  it("escapes Markdown metacharacters in text but not inside math or code", () => {
+    expect(htmlToMarkdown("<p>a*b*c, x_i_j, `tick` and $x_i * y_j$ with <code>a*b</code></p>")).toBe(
+      "a\\*b\\*c, x\\_i\\_j, \\`tick\\` and $x_i * y_j$ with `a*b`"
+    );
+  });
+});
+
+describe("BaekjoonHub format", () => {
+  it("writes the README byte for byte like BaekjoonHub, trailing spaces included", async () => {
+    const expected = await loadFixture("baekjoonhub-1000-readme.md");
+
+    const markdown = buildProblemMarkdown(
+      { site: "BOJ", problemNumber: "1000", memory: "14188 KB", runtime: "128ms", submittedAt: "2024-01-02T04:04:05Z" },
+      {
+        title: "A+B",
+        problemUrl: "https://www.acmicpc.net/problem/1000",
+        classification: [],
+        descriptionHtml: "<p>두 정수 A와 B를 입력받은 다음, A+B를 출력하는 프로그램을 작성하시오.</p>",
+        inputHtml: "<p>첫째 줄에 A와 B가 주어진다. (0 &lt; A, B &lt; 10)</p>",
+        outputHtml: "<p>첫째 줄에 A+B를 출력한다.</p>",
+        samples: [],
+        solvedAc: { level: 1, tier: "Bronze V", tags: ["구현", "사칙연산", "수학"], acceptedUserCount: 300000 }
+      },
+      "baekjoonhub"
+    );
+
+    expect(markdown).toBe(expected);
+  });
+
+  it("converts titles to BaekjoonHub folder names with full-width punctuation and U+2005 spaces", () => {
+    expect(toBaekjoonHubTitle("A+B")).toBe("A＋B");
+    expect(toBaekjoonHubTitle(" Hello World! ")).toBe("Hello\u2005World！");
+    expect(toBaekjoonHubTitle("a/b (c) [d]_e")).toBe("a／b\u2005（c）\u2005［d］＿e");
+    expect(toBaekjoonHubTitle("한글 제목")).toBe("한글\u2005제목");
+  });
+});
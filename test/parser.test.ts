@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { parsePrProblems, parseStructuredMetadata } from "../src/parser.js";
+
+function ctReviewBlock(yaml: string): string {
+  return ["```yaml ct-review", yaml, "```"].join("\n");
+}
+
+describe("parseStructuredMetadata", () => {
+  it("reads fields from a ct-review block", () => {
+    const parsed = parseStructuredMetadata(ctReviewBlock("site: BOJ\nproblem: 1000\nlanguage: Java"));
+
+    expect(parsed?.errors).toEqual([]);
+    expect(parsed?.problems[0]).toMatchObject({ site: "BOJ", problemNumber: "1000", language: "Java" });
+  });
+
+  it("reports prototype member names as unknown fields", () => {
+    const parsed = parseStructuredMetadata(ctReviewBlock("site: BOJ\nproblem: 1000\nconstructor: x\ntoString: y"));
+
+    expect(parsed?.errors.map((error) => error.field)).toEqual(["constructor", "toString"]);
+  });
+});
+
+describe("parsePrProblems", () => {
+  it("reads a YAML problems list with top-level defaults", () => {
+    const problems = parsePrProblems(
+      ctReviewBlock(
+        [
+          "language: Python",
+          "problems:",
+          "  - site: BOJ",
+          "    problem: 1000",
+          "  - site: PROGRAMMERS",
+          "    problem: 42576",
+          "    language: Java",
+          "    file: week1/pgm_42576.java"
+        ].join("\n")
+      )
+    );
+
+    expect(problems).toHaveLength(2);
+    expect(problems[0]).toMatchObject({ site: "BOJ", problemNumber: "1000", language: "Python" });
+    expect(problems[1]).toMatchObject({
+      site: "PROGRAMMERS",
+      problemNumber: "42576",
+      language: "Java",
+      sourcePath: "week1/pgm_42576.java"
+    });
+  });
+
+  it("reads a problem table and falls back to the body language", () => {
+    const problems = parsePrProblems(
+      [
+        "| Site | Problem Number | URL | File |",
+        "| --- | --- | --- | --- |",
+        "| BOJ | 1000 | https://www.acmicpc.net/problem/1000 | `week1/boj_1000.java` |",
+        "| PROGRAMMERS | 42576 | | week1/pgm_42576.java |",
+        "",
+        "- Language: Java"
+      ].join("\n")
+    );
+
+    expect(problems).toEqual([
+      expect.objectContaining({
+        site: "BOJ",
+        problemNumber: "1000",
+        problemUrl: "https://www.acmicpc.net/problem/1000",
+        language: "Java",
+        sourcePath: "week1/boj_1000.java"
+      }),
+      expect.objectContaining({
+        site: "PROGRAMMERS",
+        problemNumber: "42576",
+        language: "Java",
+        sourcePath: "week1/pgm_42576.java"
+      })
+    ]);
+  });
+
+  it("ignores table header cells named after prototype members", () => {
+    const problems = parsePrProblems(
+      ["| Site | Problem Number | constructor | toString |", "| --- | --- | --- | --- |", "| BOJ | 1000 | x | y |"].join("\n")
+    );
+
+    expect(problems).toEqual([expect.objectContaining({ site: "BOJ", problemNumber: "1000" })]);
+    expect(problems[0].sourcePath).toBeUndefined();
+  });
+
+  it("splits repeated Site: blocks and shares the fields above the first one", () => {
+    const problems = parsePrProblems(
+      [
+        "- Language: Java",
+        "",
+        "- Site: BOJ",
+        "- Problem Number: 1000",
+        "",
+        "- Site: CODEFORCES",
+        "- Problem Number: 1850C",
+        "- Language: C++"
+      ].join("\n")
+    );
+
+    expect(problems).toHaveLength(2);
+    expect(problems[0]).toMatchObject({ site: "BOJ", problemNumber: "1000", language: "Java" });
+    expect(problems[1]).toMatchObject({ site: "CODEFORCES", problemNumber: "1850C", language: "C++" });
+  });
+
+  it("returns the single line-based problem otherwise", () => {
+    expect(parsePrProblems("- Site: BOJ\n- Problem Number: 1000\n- Language: Java")).toEqual([
+      expect.objectContaining({ site: "BOJ", problemNumber: "1000", language: "Java" })
+    ]);
+    expect(parsePrProblems("")).toEqual([{}]);
+  });
+});
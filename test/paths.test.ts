@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  BAEKJOONHUB_PATH_TEMPLATES,
+  buildGeneratedFileMatcher,
+  buildPathValues,
+  DEFAULT_PATH_TEMPLATES,
+  findUnknownPlaceholders,
+  matchPathTemplate,
+  renderPathTemplate,
+  siteFromPathValues
+} from "../src/paths.js";
+import type { CrawledProblem } from "../src/types.js";
+
+const JAVA = { name: "Java", extension: ".java" };
+
+function problem(overrides: Partial<CrawledProblem> = {}): CrawledProblem {
+  return {
+    title: "A+B",
+    problemUrl: "https://www.acmicpc.net/problem/1000",
+    classification: [],
+    descriptionHtml: "",
+    inputHtml: "",
+    outputHtml: "",
+    samples: [],
+    ...overrides
+  };
+}
+
+describe("path templates", () => {
+  it("expands the default layout", () => {
+    const values = buildPathValues({ site: "BOJ", problemNumber: "1000" }, problem(), JAVA, "octocat");
+
+    expect(renderPathTemplate(DEFAULT_PATH_TEMPLATES.readme, values)).toBe("백준/1000.A+B/README.md");
+    expect(renderPathTemplate(DEFAULT_PATH_TEMPLATES.code, values)).toBe("백준/1000.A+B/A+B.java");
+    expect(renderPathTemplate("{siteId}/{author}/{lang}/{number}{ext}", values)).toBe("BOJ/octocat/Java/1000.java");
+  });
+
+  it("expands the BaekjoonHub layout with tier and full-width title", () => {
+    const values = buildPathValues(
+      { site: "BOJ", problemNumber: "1000" },
+      problem({ solvedAc: { level: 1, tier: "Bronze V", tags: [], acceptedUserCount: 1 } }),
+      JAVA,
+      undefined,
+      "baekjoonhub"
+    );
+
+    expect(renderPathTemplate(BAEKJOONHUB_PATH_TEMPLATES.code, values)).toBe("백준/Bronze/1000. A＋B/A＋B.java");
+  });
+
+  it("uses the LeetCode slug and the author's label for unsupported sites", () => {
+    const leetcode = buildPathValues(
+      { site: "LEETCODE", problemNumber: "two-sum" },
+      problem({ title: "Two Sum", displayId: "1" }),
+      JAVA
+    );
+    expect(renderPathTemplate(DEFAULT_PATH_TEMPLATES.readme, leetcode)).toBe("LeetCode/two-sum.Two Sum/README.md");
+
+    const atcoder = buildPathValues(
+      { siteLabel: "AtCoder", problemNumber: "abc300_a" },
+      problem({ title: "N-choice" }),
+      JAVA
+    );
+    expect(renderPathTemplate(DEFAULT_PATH_TEMPLATES.code, atcoder)).toBe("AtCoder/abc300_a.N-choice/N-choice.java");
+  });
+
+  it("keeps unknown placeholders visible and reports them", () => {
+    const values = buildPathValues({ site: "BOJ", problemNumber: "1000" }, problem(), JAVA);
+
+    expect(renderPathTemplate("{site}/{week}/{number}", values)).toBe("백준/{week}/1000");
+    expect(findUnknownPlaceholders("{site}/{week}/{number}/{day}")).toEqual(["week", "day"]);
+  });
+
+  it("matches paths back into values, requiring repeated placeholders to agree", () => {
+    const values = matchPathTemplate(DEFAULT_PATH_TEMPLATES.code, "백준/1000.A+B/A+B.java");
+
+    expect(values).toEqual({ site: "백준", number: "1000", title: "A+B", ext: ".java" });
+    expect(values && siteFromPathValues(values)).toBe("BOJ");
+    expect(matchPathTemplate(DEFAULT_PATH_TEMPLATES.code, "백준/1000.A+B/Other.java")).toBeUndefined();
+    // README lookups only accept supported site folders, so unrelated `docs/1.intro/README.md` files are left alone.
+    expect(matchPathTemplate(DEFAULT_PATH_TEMPLATES.readme, "docs/1.intro/README.md")).toBeUndefined();
+  });
+});
+
+describe("buildGeneratedFileMatcher", () => {
+  it("recognizes generated files in the configured and the default layout", () => {
+    const isGenerated = buildGeneratedFileMatcher(BAEKJOONHUB_PATH_TEMPLATES.code);
+
+    expect(isGenerated("백준/Bronze/1000. A＋B/A＋B.java")).toBe(true);
+    expect(isGenerated("백준/1000.A+B/A+B.java")).toBe(true);
+  });
+
+  it("recognizes generated files under an unsupported site label", () => {
+    const isGenerated = buildGeneratedFileMatcher();
+
+    expect(isGenerated("AtCoder/abc300_a.N-choice/N-choice.java")).toBe(true);
+  });
+
+  it("leaves the author's own files to review", () => {
+    const isGenerated = buildGeneratedFileMatcher();
+
+    expect(isGenerated("week1/Main.java")).toBe(false);
+    expect(isGenerated("백준/1000.A+B/Main.java")).toBe(false);
+    expect(isGenerated("백준/1000.A+B/README.md")).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { normalizeInline, parseAnswerCodeResponse, parseHintResponse, parseReviewResponse } from "../src/ai/prompts.js";
+
+describe("parseReviewResponse", () => {
+  it("reads a JSON object wrapped in a code fence and defaults missing complexities", () => {
+    const parsed = parseReviewResponse(
+      '```json\n{"summary_markdown":"## 총평","answer_code":"print(1)","inline_suggestions":[],"time_complexity":""}\n```'
+    );
+
+    expect(parsed).toMatchObject({ summary_markdown: "## 총평", time_complexity: "O(unknown)", space_complexity: "O(unknown)" });
+  });
+
+  it("rejects a response without the required fields", () => {
+    expect(parseReviewResponse('{"summary_markdown":"## 총평"}')).toBeNull();
+  });
+});
+
+describe("normalizeInline", () => {
+  it("keeps suggestions only for valid, short ranges ending at the commented line", () => {
+    expect(
+      normalizeInline([
+        { path: "Main.java", line: 5, body: "fix", start_line: 3, suggestion: "```java\n    int x = 1;\n```" },
+        { path: "Main.java", line: 5, body: "range after line", start_line: 7, suggestion: "x" },
+        { path: "Main.java", line: 0, body: "invalid line" }
+      ])
+    ).toEqual([
+      { path: "Main.java", line: 5, body: "fix", startLine: 3, suggestion: "    int x = 1;" },
+      { path: "Main.java", line: 5, body: "range after line" }
+    ]);
+  });
+});
+
+describe("parseHintResponse", () => {
+  it("drops suggested changes so hints never hand over the fix", () => {
+    const parsed = parseHintResponse(
+      'Sure: {"summary_markdown":"진단","hints":[" 방향 ",""],"inline_suggestions":[{"path":"a.py","line":2,"body":"b","suggestion":"x"}]}'
+    );
+
+    expect(parsed).toEqual({
+      summaryMarkdown: "진단",
+      hints: ["방향"],
+      counterexamples: [],
+      inlineSuggestions: [{ path: "a.py", line: 2, body: "b" }]
+    });
+  });
+});
+
+describe("parseAnswerCodeResponse", () => {
+  it("returns the trimmed answer code or null", () => {
+    expect(parseAnswerCodeResponse('{"answer_code":"\\nprint(1)\\n"}')).toBe("print(1)");
+    expect(parseAnswerCodeResponse('{"answer_code":"  "}')).toBeNull();
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { buildSolvedIndexSection, mergeSolvedIndex, readSolvedEntries, type SolvedEntry } from "../src/solvedindex.js";
+
+const entry: SolvedEntry = {
+  site: "백준",
+  number: "1000",
+  title: "A+B",
+  tags: ["수학", "구현"],
+  language: "Java",
+  author: "octocat",
+  date: "2024-01-02",
+  folder: "백준/Bronze/1000. A＋B",
+  readmeSha: "3b18e512dba79e4c8300dd08aeb37f8e728b8dad"
+};
+
+describe("solved index data comment", () => {
+  it("round-trips the entries through the generated file", () => {
+    const content = mergeSolvedIndex(null, buildSolvedIndexSection([entry]));
+
+    expect(readSolvedEntries(content)).toEqual([entry]);
+  });
+
+  it("keeps titles that contain a comment terminator inside the comment", () => {
+    const tricky = { ...entry, title: "a --> b" };
+    const content = mergeSolvedIndex(null, buildSolvedIndexSection([tricky]));
+
+    const dataLine = content.split("\n").find((line) => line.startsWith("<!-- ct-review:solved-index:data "));
+    expect(dataLine?.indexOf("-->")).toBe((dataLine?.length ?? 0) - 3);
+    expect(readSolvedEntries(content)).toEqual([tricky]);
+  });
+
+  it("reads nothing from files without usable data", () => {
+    expect(readSolvedEntries(null)).toEqual([]);
+    expect(readSolvedEntries("# 풀이 목록\n")).toEqual([]);
+    expect(readSolvedEntries("<!-- ct-review:solved-index:data [{broken -->")).toEqual([]);
+    expect(readSolvedEntries('<!-- ct-review:solved-index:data [{"site":"백준"}] -->')).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { appendSolveRecords, parseReviewComplexities, type SolveRecord } from "../src/solvelog.js";
+
+function record(overrides: Partial<SolveRecord> = {}): SolveRecord {
+  return {
+    pullNumber: 12,
+    author: "octocat",
+    site: "BOJ",
+    problemNumber: "1000",
+    openedAt: "2024-01-01T00:00:00Z",
+    mergedAt: "2024-01-02T00:00:00Z",
+    ...overrides
+  };
+}
+
+function lines(content: string): string[] {
+  return content.split("\n").filter(Boolean);
+}
+
+describe("appendSolveRecords", () => {
+  it("starts a new log with one JSON line per record", () => {
+    const content = appendSolveRecords(null, [record(), record({ problemNumber: "1001" })]);
+
+    expect(content.endsWith("\n")).toBe(true);
+    expect(lines(content).map((line) => JSON.parse(line))).toEqual([record(), record({ problemNumber: "1001" })]);
+  });
+
+  it("appends after the records of other pull requests", () => {
+    const existing = appendSolveRecords(null, [record({ pullNumber: 3 })]);
+    const content = appendSolveRecords(existing, [record()]);
+
+    expect(lines(content).map((line) => JSON.parse(line).pullNumber)).toEqual([3, 12]);
+  });
+
+  it("replaces the records of a redelivered merge instead of duplicating them", () => {
+    const first = appendSolveRecords(null, [record({ pullNumber: 3 }), record({ language: "Java" })]);
+    const content = appendSolveRecords(first, [record({ language: "Python" })]);
+
+    expect(lines(content).map((line) => JSON.parse(line))).toEqual([
+      record({ pullNumber: 3 }),
+      record({ language: "Python" })
+    ]);
+  });
+
+  it("keeps the same problem solved in another pull request or on another site", () => {
+    const first = appendSolveRecords(null, [record({ pullNumber: 3 }), record({ site: "PROGRAMMERS" })]);
+    const content = appendSolveRecords(first, [record()]);
+
+    expect(lines(content)).toHaveLength(3);
+  });
+
+  it("handles an empty log and keeps malformed lines as they are", () => {
+    expect(appendSolveRecords("", [record()])).toBe(`${JSON.stringify(record())}\n`);
+
+    const existing = ["{broken", "", "null", "42", JSON.stringify(record())].join("\n");
+    const content = appendSolveRecords(existing, [record({ language: "C++" })]);
+
+    expect(lines(content)).toEqual(["{broken", "null", "42", JSON.stringify(record({ language: "C++" }))]);
+  });
+});
+
+describe("parseReviewComplexities", () => {
+  it("reads one section per problem and skips unknown values", () => {
+    const body = [
+      "# 1. 백준 1000",
+      "- 시간 복잡도: O(1)",
+      "- 공간 복잡도: O(unknown)",
+      "# 2. 백준 1001",
+      "- 시간 복잡도: O(N)",
+      "- 공간 복잡도: O(N)"
+    ].join("\n");
+
+    expect(parseReviewComplexities(body)).toEqual([
+      { time: "O(1)", space: undefined },
+      { time: "O(N)", space: "O(N)" }
+    ]);
+    expect(parseReviewComplexities("- 시간 복잡도: O(N log N)")).toEqual([{ time: "O(N log N)", space: undefined }]);
+  });
+});
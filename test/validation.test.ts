@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { validateTemplate, type TemplateField, type TemplateValidationResult } from "../src/validation.js";
+import type { PrProblemMetadata } from "../src/types.js";
+
+const VALID: PrProblemMetadata = {
+  site: "BOJ",
+  problemNumber: "1000",
+  problemUrl: "https://www.acmicpc.net/problem/1000",
+  language: "Java"
+};
+
+function fieldReport(result: TemplateValidationResult, field: TemplateField) {
+  return result.fields.find((report) => report.field === field);
+}
+
+describe("validateTemplate", () => {
+  it("reports the detected and expected value of every field for a valid body", () => {
+    const result = validateTemplate("", VALID);
+
+    expect(result.valid).toBe(true);
+    expect(result.usesStructuredBlock).toBe(false);
+    expect(result.fields).toEqual([
+      { field: "Site", detected: "BOJ", expected: "BOJ | PROGRAMMERS | CODEFORCES | LEETCODE | SWEA | SOFTEER", issues: [] },
+      { field: "Problem Number", detected: "1000", expected: "예) 1000", issues: [] },
+      {
+        field: "URL",
+        detected: "https://www.acmicpc.net/problem/1000",
+        expected: "https://www.acmicpc.net/problem/{문제번호} (선택)",
+        issues: []
+      },
+      { field: "Language", detected: "Java", expected: "Java | Python | C++", issues: [] }
+    ]);
+  });
+
+  describe("Site", () => {
+    it("flags an empty site", () => {
+      const report = fieldReport(validateTemplate("", { ...VALID, site: undefined }), "Site");
+      expect(report).toMatchObject({ detected: undefined, issues: ["Site가 비어 있습니다."] });
+    });
+
+    it("accepts an unknown site only with a pasted statement", () => {
+      const unknown = { ...VALID, site: undefined, siteLabel: "AtCoder", problemUrl: undefined };
+
+      expect(fieldReport(validateTemplate("", unknown), "Site")?.issues[0]).toContain('알 수 없는 사이트 값 "AtCoder"');
+      const withStatement = validateTemplate("", { ...unknown, statement: { description: "본문" } });
+      expect(fieldReport(withStatement, "Site")).toMatchObject({ detected: "AtCoder", issues: [] });
+    });
+
+    it("flags sites the repository does not allow", () => {
+      const result = validateTemplate("", VALID, { sites: ["PROGRAMMERS"] });
+      expect(fieldReport(result, "Site")).toMatchObject({
+        expected: "PROGRAMMERS",
+        issues: ["이 저장소에서 사용하지 않는 사이트입니다. (.github/ct-review.yml의 sites 참고)"]
+      });
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe("Problem Number", () => {
+    it("flags an empty or malformed number with the site's example", () => {
+      expect(fieldReport(validateTemplate("", { ...VALID, problemNumber: undefined }), "Problem Number")?.issues).toEqual([
+        "Problem Number가 비어 있습니다."
+      ]);
+      const codeforces = validateTemplate("", { site: "CODEFORCES", problemNumber: "1850", language: "Java" });
+      expect(fieldReport(codeforces, "Problem Number")).toMatchObject({
+        detected: "1850",
+        expected: "예) 1850C",
+        issues: ["CODEFORCES 문제 번호 형식이 아닙니다. (예: 1850C)"]
+      });
+    });
+  });
+
+  describe("URL", () => {
+    it("is optional", () => {
+      expect(fieldReport(validateTemplate("", { ...VALID, problemUrl: undefined }), "URL")?.issues).toEqual([]);
+    });
+
+    it("flags a host of another site", () => {
+      const result = validateTemplate("", { ...VALID, problemUrl: "https://codeforces.com/problemset/problem/1/A" });
+      expect(fieldReport(result, "URL")?.issues).toEqual(["URL 호스트가 Site(BOJ)와 맞지 않습니다."]);
+    });
+
+    it("flags a URL that is not a problem page", () => {
+      const result = validateTemplate("", { ...VALID, problemUrl: "https://www.acmicpc.net/status" });
+      expect(fieldReport(result, "URL")?.issues).toEqual(["문제 페이지 URL 형식이 아닙니다."]);
+    });
+
+    it("flags a number that differs from the URL, except for SWEA ids", () => {
+      const result = validateTemplate("", { ...VALID, problemNumber: "1001" });
+      expect(fieldReport(result, "URL")?.issues).toEqual(["URL의 문제 번호(1000)와 Problem Number(1001)가 다릅니다."]);
+
+      const swea = validateTemplate("", {
+        site: "SWEA",
+        problemNumber: "1954",
+        problemUrl: "https://swexpertacademy.com/main/code/problem/problemDetail.do?contestProbId=AV5PobmqAPoDFAUq",
+        language: "Python"
+      });
+      expect(swea.valid).toBe(true);
+    });
+  });
+
+  describe("Language", () => {
+    it("flags empty, unsupported and disallowed languages", () => {
+      expect(fieldReport(validateTemplate("", { ...VALID, language: undefined }), "Language")?.issues).toEqual([
+        "Language가 비어 있습니다."
+      ]);
+      expect(fieldReport(validateTemplate("", { ...VALID, language: "Kotlin" }), "Language")?.issues).toEqual([
+        '지원하지 않는 언어 "Kotlin" 입니다.'
+      ]);
+      const restricted = validateTemplate("", { ...VALID, language: "Python 3" }, { languages: ["Java"] });
+      expect(fieldReport(restricted, "Language")).toMatchObject({
+        detected: "Python 3",
+        expected: "Java",
+        issues: ["이 저장소에서 사용하지 않는 언어입니다. (.github/ct-review.yml의 languages 참고)"]
+      });
+    });
+  });
+
+  describe("structured block", () => {
+    it("surfaces field errors from the ct-review block and marks the body invalid", () => {
+      const body = ["```yaml ct-review", "site: BOJ", "problem: 1000", "language: Java", "colour: red", "```"].join("\n");
+      const result = validateTemplate(body, VALID);
+
+      expect(result.usesStructuredBlock).toBe(true);
+      expect(result.structuredErrors).toEqual([expect.objectContaining({ field: "colour" })]);
+      expect(result.fields.every((report) => report.issues.length === 0)).toBe(true);
+      expect(result.valid).toBe(false);
+    });
+
+    it("reports a block that is not a mapping", () => {
+      const result = validateTemplate(["```yaml ct-review", "- BOJ", "```"].join("\n"), VALID);
+
+      expect(result.structuredErrors).toEqual([
+        { field: "(root)", message: "key: value 형식의 매핑이어야 합니다." }
+      ]);
+    });
+  });
+});